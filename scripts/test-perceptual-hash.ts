@@ -4,6 +4,7 @@ import {
   generateFrameHashes,
   hammingDistance,
   hashSimilarity,
+  hashToHex,
 } from '../src/lib/ai/perceptual-hash';
 import { extractFramesAtPositions, extractKeyframes } from '../src/lib/video/frame-extractor';
 
@@ -64,15 +65,15 @@ async function testPerceptualHashing() {
     const frames = await extractFramesAtPositions(sourceVideoUrl, frameNumbers);
     
     const singleHash = await generateFrameHash(frames[0].buffer, frames[0].frameNumber);
-    console.log(`Frame ${singleHash.frameNumber}: ${singleHash.hash}`);
-    console.log(`Hash length: ${singleHash.hash.length} characters (8 bytes)\n`);
+    console.log(`Frame ${singleHash.frameNumber}: ${hashToHex(singleHash.bits)}`);
+    console.log(`Hash length: ${singleHash.bits.length} words (${singleHash.bits.byteLength} bytes)\n`);
 
     // Test 2: Batch Generate Hashes
     console.log('📦 Test 2: Batch Generate Hashes');
     console.log('-'.repeat(80));
     const hashes = await generateFrameHashes(frames);
     console.log(`Generated ${hashes.length} hashes:`);
-    hashes.forEach(h => console.log(`  Frame ${h.frameNumber}: ${h.hash}`));
+    hashes.forEach(h => console.log(`  Frame ${h.frameNumber}: ${hashToHex(h.bits)}`));
     console.log('');
 
     // Test 3: Compare Similar Frames (same frame extracted twice)
@@ -83,11 +84,11 @@ async function testPerceptualHashing() {
     const hash1 = await generateFrameHash(frame1[0].buffer, frame1[0].frameNumber);
     const hash2 = await generateFrameHash(frame2[0].buffer, frame2[0].frameNumber);
     
-    const identicalDistance = hammingDistance(hash1.hash, hash2.hash);
-    const identicalSimilarity = hashSimilarity(hash1.hash, hash2.hash);
+    const identicalDistance = hammingDistance(hash1.bits, hash2.bits);
+    const identicalSimilarity = hashSimilarity(hash1.bits, hash2.bits);
     console.log(`Frame ${hash1.frameNumber} vs Frame ${hash2.frameNumber}:`);
-    console.log(`  Hash 1: ${hash1.hash}`);
-    console.log(`  Hash 2: ${hash2.hash}`);
+    console.log(`  Hash 1: ${hashToHex(hash1.bits)}`);
+    console.log(`  Hash 2: ${hashToHex(hash2.bits)}`);
     console.log(`  Hamming distance: ${identicalDistance}/64 bits different`);
     console.log(`  Similarity: ${(identicalSimilarity * 100).toFixed(1)}%`);
     console.log(`  ✅ Should be identical (distance ~0)\n`);
@@ -95,19 +96,19 @@ async function testPerceptualHashing() {
     // Test 4: Compare Different Frames
     console.log('🔀 Test 4: Compare Different Frames');
     console.log('-'.repeat(80));
-    const distance1vs2 = hammingDistance(hashes[0].hash, hashes[1].hash);
-    const similarity1vs2 = hashSimilarity(hashes[0].hash, hashes[1].hash);
+    const distance1vs2 = hammingDistance(hashes[0].bits, hashes[1].bits);
+    const similarity1vs2 = hashSimilarity(hashes[0].bits, hashes[1].bits);
     console.log(`Frame ${hashes[0].frameNumber} vs Frame ${hashes[1].frameNumber}:`);
-    console.log(`  Hash 1: ${hashes[0].hash}`);
-    console.log(`  Hash 2: ${hashes[1].hash}`);
+    console.log(`  Hash 1: ${hashToHex(hashes[0].bits)}`);
+    console.log(`  Hash 2: ${hashToHex(hashes[1].bits)}`);
     console.log(`  Hamming distance: ${distance1vs2}/64 bits different`);
     console.log(`  Similarity: ${(similarity1vs2 * 100).toFixed(1)}%\n`);
 
-    const distance1vs3 = hammingDistance(hashes[0].hash, hashes[2].hash);
-    const similarity1vs3 = hashSimilarity(hashes[0].hash, hashes[2].hash);
+    const distance1vs3 = hammingDistance(hashes[0].bits, hashes[2].bits);
+    const similarity1vs3 = hashSimilarity(hashes[0].bits, hashes[2].bits);
     console.log(`Frame ${hashes[0].frameNumber} vs Frame ${hashes[2].frameNumber}:`);
-    console.log(`  Hash 1: ${hashes[0].hash}`);
-    console.log(`  Hash 2: ${hashes[2].hash}`);
+    console.log(`  Hash 1: ${hashToHex(hashes[0].bits)}`);
+    console.log(`  Hash 2: ${hashToHex(hashes[2].bits)}`);
     console.log(`  Hamming distance: ${distance1vs3}/64 bits different`);
     console.log(`  Similarity: ${(similarity1vs3 * 100).toFixed(1)}%\n`);
 
@@ -0,0 +1,72 @@
+import { config } from 'dotenv';
+import type { WorkerOptions } from '../src/lib/queue/worker';
+
+/**
+ * Job queue worker
+ *
+ * Runs queued processing, promotion and revert tasks outside the Next.js
+ * request path. Start one per machine that has ffmpeg; any number can share
+ * the queue, which caps how many tasks run at once overall and per account.
+ *
+ * Usage:
+ *   npm run worker
+ *   npm run worker -- --concurrency 2 --max-running 4 --max-per-account 2
+ *   npm run worker -- --once   # drain what is runnable now, then exit
+ *
+ * Flags fall back to QUEUE_WORKER_CONCURRENCY, QUEUE_MAX_RUNNING,
+ * QUEUE_MAX_PER_ACCOUNT and QUEUE_LEASE_SECONDS. SIGINT/SIGTERM stop claiming
+ * and wait for running tasks; a second signal exits immediately (their leases
+ * expire and another worker retries them).
+ */
+
+// Same env files as `next dev`; deployed workers get real environment variables
+config({ path: ['.env.local', '.env'], quiet: true });
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  // The database module checks DATABASE_URL on import, so load it after the env files
+  const { runWorker } = await import('../src/lib/queue/worker');
+
+  const controller = new AbortController();
+  const stop = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      console.log(`\n${signal} again - exiting without waiting`);
+      process.exit(1);
+    }
+    console.log(`\n${signal} received - finishing running tasks (send again to exit now)`);
+    controller.abort();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  await runWorker({ ...options, signal: controller.signal });
+}
+
+function parseArgs(args: string[]): WorkerOptions {
+  const value = (flag: string, env: string) => {
+    const index = args.indexOf(flag);
+    const raw = index >= 0 ? args[index + 1] : process.env[env];
+    if (raw === undefined || raw === '') return undefined;
+    const number = Number(raw);
+    if (!Number.isInteger(number) || number < 1) {
+      throw new Error(`${flag} must be a positive integer (got ${raw})`);
+    }
+    return number;
+  };
+
+  return {
+    concurrency: value('--concurrency', 'QUEUE_WORKER_CONCURRENCY'),
+    limits: {
+      maxRunning: value('--max-running', 'QUEUE_MAX_RUNNING'),
+      maxPerAccount: value('--max-per-account', 'QUEUE_MAX_PER_ACCOUNT'),
+      leaseSeconds: value('--lease', 'QUEUE_LEASE_SECONDS'),
+    },
+    once: args.includes('--once'),
+  };
+}
+
+main().catch(error => {
+  console.error('❌ Worker crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/crypto';
+import { traceComment } from '@/lib/video/comment-lineage';
+
+/**
+ * Trace a comment across every version it has been transferred through
+ * Accepts the Frame.io id of any copy of the note, or of the original.
+ * Only the user's own transfers are traced; anything else is a 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ commentId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { commentId } = await params;
+    const trace = await traceComment(commentId, session.user.id);
+
+    if (!trace) {
+      return NextResponse.json(
+        { error: 'No transfers recorded for this comment' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ trace });
+
+  } catch (error) {
+    console.error('Failed to trace comment lineage:', error);
+    return NextResponse.json(
+      { error: 'Failed to trace comment lineage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { processingJobs } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/auth/crypto';
+import { FrameioClient } from '@/lib/frameio-client';
+import { REVIEW_STATUSES, reviewMatch, type ReviewStatus } from '@/lib/video/match-store';
+import { proxyFrameCount } from '@/lib/video/thumbnails';
+
+/**
+ * Review one match of a dry run
+ * Body: { status: 'approved' | 'rejected' | 'pending', frame?: number | null }
+ * `frame` places the comment on any frame of the target's proxy (a runner-up
+ * or one found by scrubbing); null restores the computed placement.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string; matchId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { jobId, matchId } = await params;
+    const job = await db.query.processingJobs.findFirst({
+      where: eq(processingJobs.id, jobId),
+    });
+
+    if (!job || job.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'dry_run') {
+      return NextResponse.json(
+        { error: `Only dry runs can be reviewed (job is ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const frame = body.frame;
+    if (!REVIEW_STATUSES.includes(body.status) || (frame !== undefined && frame !== null && !Number.isInteger(frame))) {
+      return NextResponse.json(
+        { error: `status must be one of ${REVIEW_STATUSES.join(', ')}; frame a frame number or null` },
+        { status: 400 }
+      );
+    }
+
+    // Bound placements by the proxy the reviewer scrubs (probed once per file, cached)
+    let targetFrameCount: number | undefined;
+    if (typeof frame === 'number') {
+      const client = await FrameioClient.fromUserId(job.userId);
+      if (!client) {
+        return NextResponse.json(
+          { error: 'Frame.io session expired' },
+          { status: 401 }
+        );
+      }
+      targetFrameCount = await proxyFrameCount(client, job.accountId!, job.targetFileId!);
+    }
+
+    let reviewed;
+    try {
+      reviewed = await reviewMatch(jobId, matchId, {
+        status: body.status as ReviewStatus,
+        selectedFrame: frame,
+        reviewedBy: session.user.id,
+      }, targetFrameCount);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    if (!reviewed) {
+      return NextResponse.json(
+        { error: 'Match not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      id: reviewed.id,
+      reviewStatus: reviewed.reviewStatus,
+      selectedFrame: reviewed.selected?.frame ?? null,
+      selectedKind: reviewed.selected?.kind ?? null,
+      reviewedAt: reviewed.reviewedAt,
+    });
+
+  } catch (error) {
+    console.error('Failed to review match:', error);
+    return NextResponse.json(
+      { error: 'Failed to review match' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { processingJobs } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/auth/crypto';
+import { listMatches, targetFps } from '@/lib/video/match-store';
+
+/**
+ * Every match a job computed (dry runs included), in target timeline order,
+ * with its runner-up placements and review state
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const job = await db.query.processingJobs.findFirst({
+      where: eq(processingJobs.id, jobId),
+    });
+
+    if (!job || job.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const matches = await listMatches(jobId);
+    const metadata = job.metadata ? JSON.parse(job.metadata) : {};
+
+    return NextResponse.json({
+      job: {
+        id: job.id,
+        status: job.status || 'pending',
+        message: job.message,
+        sourceFileId: job.sourceFileId,
+        targetFileId: job.targetFileId,
+        sourceFileName: metadata.sourceFileName || 'Unknown',
+        targetFileName: metadata.targetFileName || 'Unknown',
+      },
+      matches: matches.map(({ id, position, match, reviewStatus, selected, reviewedAt }) => ({
+        id,
+        position,
+        sourceCommentId: match.sourceComment.id,
+        sourceFileId: match.sourceFileId ?? job.sourceFileId,
+        text: match.sourceComment.text,
+        author: match.sourceComment.owner?.name || null,
+        sourceFrameNumber: match.sourceComment.timestamp ?? null,
+        sourceTimestamp: match.sourceTimestamp ?? null,
+        targetFrameNumber: match.targetFrameNumber,
+        targetTimestamp: match.targetTimestamp,
+        targetFps: targetFps(match),
+        similarity: match.similarity,
+        confidence: match.confidence ?? null,
+        reason: match.reason ?? null,
+        originVersion: match.origin?.version ?? null,
+        regionChanged: match.region?.changed ?? false,
+        candidates: match.candidates ?? [],
+        reviewStatus,
+        selectedFrame: selected?.frame ?? null,
+        selectedKind: selected?.kind ?? null,
+        reviewedAt,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch job matches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch job matches' },
+      { status: 500 }
+    );
+  }
+}
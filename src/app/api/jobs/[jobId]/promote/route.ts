@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { processingJobs } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/auth/crypto';
+import { enqueueJob } from '@/lib/queue/job-queue';
+import { listMatches } from '@/lib/video/match-store';
+
+/**
+ * Promote a dry run into a real transfer of its approved matches
+ * Transfers are rate-limited, so this is queued for a worker like a fresh job.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const job = await db.query.processingJobs.findFirst({
+      where: eq(processingJobs.id, jobId),
+    });
+
+    if (!job || job.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'dry_run') {
+      return NextResponse.json(
+        { error: `Only dry runs can be promoted (job is ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    const approved = (await listMatches(jobId)).filter(m => m.reviewStatus === 'approved').length;
+    if (approved === 0) {
+      return NextResponse.json(
+        { error: 'No matches approved - review the dry run first' },
+        { status: 409 }
+      );
+    }
+
+    // Claim the job before returning so a second click can't post twice
+    const claimed = await db.update(processingJobs)
+      .set({ status: 'processing', progress: '0.95', message: 'Transferring stored matches...' })
+      .where(and(eq(processingJobs.id, jobId), eq(processingJobs.status, 'dry_run')))
+      .returning({ id: processingJobs.id });
+    if (claimed.length === 0) {
+      return NextResponse.json(
+        { error: 'Job changed state - reload and try again' },
+        { status: 409 }
+      );
+    }
+
+    // Without a task nothing would ever move the job on, so give the claim back
+    const restore = () => db.update(processingJobs)
+      .set({ status: 'dry_run', progress: job.progress, message: job.message })
+      .where(and(eq(processingJobs.id, jobId), eq(processingJobs.status, 'processing')));
+    let queued: boolean;
+    try {
+      queued = await enqueueJob(jobId, 'promote', { accountId: job.accountId });
+    } catch (error) {
+      await restore();
+      throw error;
+    }
+    if (!queued) {
+      await restore();
+      return NextResponse.json(
+        { error: 'Job already has a queued task' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ promoting: true, approved }, { status: 202 });
+
+  } catch (error) {
+    console.error('Failed to promote job:', error);
+    return NextResponse.json(
+      { error: 'Failed to promote job' },
+      { status: 500 }
+    );
+  }
+}
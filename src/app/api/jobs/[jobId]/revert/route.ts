@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { processingJobs } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getSession } from '@/lib/auth/crypto';
+import { REVERTIBLE_STATUSES } from '@/lib/video/process-job';
+import { enqueueJob } from '@/lib/queue/job-queue';
+
+/**
+ * Revert a finished job: delete the comments it created on the target
+ * Deletion is rate-limited (10 per minute), so it is queued for a worker;
+ * the job's status moves to reverting → reverted / reverted_with_errors.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const job = await db.query.processingJobs.findFirst({
+      where: eq(processingJobs.id, jobId),
+    });
+
+    // Only the user who ran a job can revert it
+    if (!job || job.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!REVERTIBLE_STATUSES.includes(job.status || '')) {
+      return NextResponse.json(
+        { error: `Job cannot be reverted while ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    const commentIds = job.createdCommentIds ?? [];
+    if (commentIds.length === 0) {
+      return NextResponse.json(
+        { error: 'No created comments recorded for this job' },
+        { status: 409 }
+      );
+    }
+
+    // Claim the job before returning so a second click can't start another revert
+    const claimed = await db.update(processingJobs)
+      .set({ status: 'reverting', message: `Deleting ${commentIds.length} transferred comments...` })
+      .where(and(eq(processingJobs.id, jobId), eq(processingJobs.status, job.status!)))
+      .returning({ id: processingJobs.id });
+    if (claimed.length === 0) {
+      return NextResponse.json(
+        { error: 'Job changed state - reload and try again' },
+        { status: 409 }
+      );
+    }
+
+    // Without a task nothing would ever move the job on, so give the claim back
+    const restore = () => db.update(processingJobs)
+      .set({ status: job.status, message: job.message })
+      .where(and(eq(processingJobs.id, jobId), eq(processingJobs.status, 'reverting')));
+    let queued: boolean;
+    try {
+      queued = await enqueueJob(jobId, 'revert', {
+        accountId: job.accountId,
+        payload: { requestedBy: { id: session.user.id, name: session.user.name }, previousStatus: job.status },
+      });
+    } catch (error) {
+      await restore();
+      throw error;
+    }
+    if (!queued) {
+      await restore();
+      return NextResponse.json(
+        { error: 'Job already has a queued task' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ reverting: true, comments: commentIds.length }, { status: 202 });
+
+  } catch (error) {
+    console.error('Failed to revert job:', error);
+    return NextResponse.json(
+      { error: 'Failed to revert job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { processingJobs } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getSession } from '@/lib/auth/crypto';
+import { FrameioClient } from '@/lib/frameio-client';
+import { parseSourceVersions } from '@/lib/video/version-merge';
+import { renderFrameThumbnail } from '@/lib/video/thumbnails';
+
+/**
+ * JPEG of one frame of a job's source or target, e.g. ?file=<fileId>&frame=120
+ * Only files the job itself read can be requested.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const job = await db.query.processingJobs.findFirst({
+      where: eq(processingJobs.id, jobId),
+    });
+
+    if (!job || job.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const fileId = request.nextUrl.searchParams.get('file');
+    const frame = Number(request.nextUrl.searchParams.get('frame'));
+    const metadata = job.metadata ? JSON.parse(job.metadata) : {};
+    const jobFiles = [
+      job.sourceFileId,
+      job.targetFileId,
+      ...parseSourceVersions(metadata.sourceVersions).map(v => v.fileId),
+    ];
+
+    if (!fileId || !jobFiles.includes(fileId) || !Number.isInteger(frame)) {
+      return NextResponse.json(
+        { error: 'file must be one of the job\'s files and frame a frame number' },
+        { status: 400 }
+      );
+    }
+
+    const client = await FrameioClient.fromUserId(job.userId);
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Frame.io session expired' },
+        { status: 401 }
+      );
+    }
+
+    const jpeg = await renderFrameThumbnail(client, job.accountId!, fileId, frame);
+
+    return new NextResponse(new Uint8Array(jpeg), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': 'private, max-age=3600', // A file's frames never change
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to render frame thumbnail:', error);
+    return NextResponse.json(
+      { error: 'Failed to render frame thumbnail' },
+      { status: 500 }
+    );
+  }
+}
@@ -55,6 +55,10 @@ export async function GET() {
         createdAt: job.createdAt,
         completedAt: job.completedAt,
         duration,
+        // Edit list between source and target (kept/inserted/removed/trimmed/moved)
+        versionDiff: job.versionDiff ?? null,
+        // Revert attempts, oldest first
+        reverts: Array.isArray(metadata.reverts) ? metadata.reverts : [],
         // Additional info
         accountId: job.accountId,
         projectId: job.projectId,
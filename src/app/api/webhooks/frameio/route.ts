@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
 import { FrameioClient } from '@/lib/frameio-client';
 import { db, processingJobs, NewProcessingJob } from '@/lib/db';
-import { processJob } from '@/lib/video/process-job';
+import { enqueueJob } from '@/lib/queue/job-queue';
+import { DEFAULT_SIGNATURE_WEIGHTS } from '@/lib/ai/signatures';
+import { DEFAULT_ATTRIBUTION } from '@/lib/video/attribution';
 
 interface FrameioWebhookPayload {
   event?: string;
@@ -40,6 +42,9 @@ interface MessageCallbackResponse {
   description: string;
 }
 
+// Form value for "collect from all previous versions" (instead of a single source file id)
+const ALL_PREVIOUS_VERSIONS = 'all_previous_versions';
+
 interface FormField {
   type: 'text' | 'textarea' | 'select' | 'boolean' | 'link';
   label: string;
@@ -216,7 +221,8 @@ async function handleWebhookEvent(payload: FrameioWebhookPayload): Promise<FormC
           // Save processing job to database
         try {
           const accountId = payload.account?.id || payload.account_id;
-          const sourceFileId = payload.data.source_file_id as string;
+          const collectAll = payload.data.source_file_id === ALL_PREVIOUS_VERSIONS;
+          const dryRun = payload.data.dry_run === true || payload.data.dry_run === 'true';
           
           // Fetch comments from source file before creating job
           // Use user_id instead of account_id (users can belong to multiple accounts)
@@ -236,18 +242,36 @@ async function handleWebhookEvent(payload: FrameioWebhookPayload): Promise<FormC
             };
           }
           
-          console.log(`🔍 Fetching comments from source file: ${sourceFileId}`);
-          const sourceComments = await client.getFileComments(accountId!, sourceFileId);
+          // Resolve the source version(s): one picked file, or every transcoded version before the target
+          const sourceVersions = collectAll
+            ? await getPreviousVersions(client, accountId!, payload.resource.id)
+            : [{ fileId: payload.data.source_file_id as string, version: 0 }];
+          if (sourceVersions.length === 0) {
+            return {
+              title: "No Previous Versions ❌",
+              description: "There are no earlier transcoded versions in this version stack to collect comments from."
+            };
+          }
+          // The newest source is the job's primary source file
+          const sourceFileId = sourceVersions[sourceVersions.length - 1].fileId;
+
+          const sourceComments = [];
+          for (const version of sourceVersions) {
+            console.log(`🔍 Fetching comments from source file: ${version.fileId}`);
+            sourceComments.push(...await client.getFileComments(accountId!, version.fileId));
+          }
           
           if (!sourceComments || sourceComments.length === 0) {
             console.log('❌ No comments found on source file');
             return {
               title: "No Comments Found ❌",
-              description: "The source file has no comments to transfer. Please add comments to the source file first, then try again."
+              description: collectAll
+                ? "None of the previous versions have comments to transfer."
+                : "The source file has no comments to transfer. Please add comments to the source file first, then try again."
             };
           }
           
-          console.log(`✅ Found ${sourceComments.length} comments on source file`);
+          console.log(`✅ Found ${sourceComments.length} comments on ${sourceVersions.length} source file(s)`);
           
           // Fetch file names for metadata and success message
           let sourceFileName = 'selected source';
@@ -294,8 +318,19 @@ async function handleWebhookEvent(payload: FrameioWebhookPayload): Promise<FormC
             status: 'pending',
             metadata: JSON.stringify({
               sensitivity: 'medium', // 80% similarity threshold (default)
-              sourceFileName,
+              signatureWeights: DEFAULT_SIGNATURE_WEIGHTS, // Hash algorithms + fusion weights, e.g. { dhash: 1, phash: 0.5 }
+              cropDetection: true, // Hash only the active picture (ignore letterbox/pillarbox bars)
+              normalization: 'none', // 'equalize' | 'local_contrast' when the target is a regrade
+              audioMatching: true, // Break ties on black/static shots with audio fingerprints
+              masks: [], // Overlay masks: 'bottom_third' | 'bitc' | 'top_right_bug' or { x, y, width, height }
+              autoMasks: false, // Detect regions that change on every frame (running timecode)
+              attribution: DEFAULT_ATTRIBUTION, // Original author/date/state block: { enabled, position: 'prefix' | 'suffix', fields }
+              resolvedComments: 'transfer', // Comments resolved on the source: 'transfer' | 'skip' | 'complete'
+              duplicates: 'skip', // Notes already on the target (earlier transfers): 'skip' | 'update'
+              dryRun, // Match and store only; promote from the app to post
+              sourceFileName: collectAll ? `${sourceVersions.length} previous versions` : sourceFileName,
               targetFileName,
+              ...(collectAll && { sourceVersions }), // Matched independently, merged and deduplicated
               sourceCommentsCount: sourceComments.length,
               sourceCommentIds: sourceComments.map(c => c.id),
               triggeredAt: new Date().toISOString(),
@@ -312,14 +347,14 @@ async function handleWebhookEvent(payload: FrameioWebhookPayload): Promise<FormC
           console.log(`   Interaction: ${payload.interaction_id?.substring(0, 8)}`);
           console.log(`${'='.repeat(80)}\n`);
           
-          // Trigger job processing asynchronously (don't await - let it run in background)
-          processJob(job.id).catch((error) => {
-            console.error(`❌ Job ${job.id.substring(0, 8)} processing failed:`, error);
-          });
+          // Processing runs on a queue worker (scripts/worker.ts), not in this request
+          await enqueueJob(job.id, 'process', { accountId: job.accountId });
           
           return {
             title: "Success! 🎉",
-            description: "Matching comment job submitted..."
+            description: dryRun
+              ? "Dry run submitted - review the matches in the app, then promote to post them."
+              : "Matching comment job submitted..."
           };
         } catch (error) {
           console.error('❌ Failed to create processing job:', error);
@@ -384,6 +419,13 @@ async function handleWebhookEvent(payload: FrameioWebhookPayload): Promise<FormC
           };
         }
         
+        // Merging is offered when at least two versions precede the target
+        const targetIndex = allVersions.findIndex(v => v.id === fileId);
+        const previousCount = allVersions.slice(0, targetIndex).filter(v => v.status === 'transcoded').length;
+        const mergeOption = previousCount >= 2
+          ? [{ name: `All previous versions (${previousCount}, merged)`, value: ALL_PREVIOUS_VERSIONS }]
+          : [];
+
         // Build form with dynamic source file options
         return {
           title: `Apply comments to "${file.name}"`,
@@ -394,10 +436,19 @@ async function handleWebhookEvent(payload: FrameioWebhookPayload): Promise<FormC
               label: "Select source",
               name: "source_file_id",
               value: sourceFiles[0].id,
-              options: sourceFiles.map((sf, index) => ({
-                name: `v${index + 1} - ${truncateMiddle(sf.name)}`,
-                value: sf.id
-              }))
+              options: [
+                ...sourceFiles.map((sf, index) => ({
+                  name: `v${index + 1} - ${truncateMiddle(sf.name)}`,
+                  value: sf.id
+                })),
+                ...mergeOption,
+              ]
+            },
+            {
+              type: "boolean",
+              label: "Dry run (preview matches, post nothing)",
+              name: "dry_run",
+              value: "false"
             }
           ]
         };
@@ -431,6 +482,27 @@ async function handleWebhookEvent(payload: FrameioWebhookPayload): Promise<FormC
   return null;
 }
 
+/**
+ * Transcoded versions stacked before the target, oldest first
+ * Version numbers are positions in the stack (v1 = first version).
+ */
+async function getPreviousVersions(
+  client: FrameioClient,
+  accountId: string,
+  targetFileId: string
+): Promise<Array<{ fileId: string; fileName: string; version: number }>> {
+  const target = await client.getFile(accountId, targetFileId);
+  if (!target.parent_id) return [];
+
+  const allVersions = await client.listVersionStackChildren(accountId, target.parent_id);
+  const targetIndex = allVersions.findIndex(v => v.id === targetFileId);
+  return allVersions
+    .map((v, index) => ({ fileId: v.id, fileName: v.name, version: index + 1, status: v.status }))
+    .slice(0, Math.max(0, targetIndex))
+    .filter(v => v.status === 'transcoded')
+    .map(({ fileId, fileName, version }) => ({ fileId, fileName, version }));
+}
+
 // GET endpoint for webhook status
 export async function GET() {
   return NextResponse.json({
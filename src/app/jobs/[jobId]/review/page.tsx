@@ -0,0 +1,441 @@
+'use client';
+
+import { useAuth } from '@/lib/auth/context';
+import { LoginButton } from '@/components/auth/LoginButton';
+import { useParams } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+
+type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+interface ReviewJob {
+  id: string;
+  status: string;
+  message: string | null;
+  sourceFileId: string;
+  targetFileId: string;
+  sourceFileName: string;
+  targetFileName: string;
+}
+
+interface Candidate {
+  frame: number;
+  timestamp: number;
+  similarity: number;
+}
+
+interface ReviewMatch {
+  id: string;
+  text: string;
+  author: string | null;
+  sourceFileId: string;
+  sourceFrameNumber: number | null;
+  sourceTimestamp: number | null;
+  targetFrameNumber: number;
+  targetTimestamp: number;
+  targetFps: number;
+  similarity: number;
+  confidence: 'high' | 'medium' | 'low' | null;
+  reason: string | null;
+  originVersion: number | null;
+  regionChanged: boolean;
+  candidates: Candidate[];
+  reviewStatus: ReviewStatus;
+  selectedFrame: number | null;
+  selectedKind: 'runner_up' | 'manual' | null;
+}
+
+const CONFIDENCE_STYLES: Record<'high' | 'medium' | 'low', string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800',
+};
+
+const SCRUB_RANGE_SECONDS = 5; // Either side of the proposed placement
+const SCRUB_PREVIEW_DELAY_MS = 250; // Each preview is an ffmpeg seek on the server
+
+const REVIEW_STYLES: Record<ReviewStatus, string> = {
+  pending: 'border-gray-200',
+  approved: 'border-green-400',
+  rejected: 'border-red-300 opacity-60',
+};
+
+function formatTimecode(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${minutes}:${secs}`;
+}
+
+export default function ReviewPage() {
+  const { user, loading } = useAuth();
+  const { jobId } = useParams<{ jobId: string }>();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center gap-4">
+              <Link href="/" className="text-sm text-blue-600 hover:text-blue-800">← Jobs</Link>
+              <h1 className="text-2xl font-bold text-gray-900">Review matches</h1>
+            </div>
+            <LoginButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : user ? (
+          <MatchReview jobId={jobId} />
+        ) : (
+          <div className="text-center py-20 text-gray-600">Sign in to review this job.</div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+/**
+ * Every match of a dry run side by side with its runner-ups
+ * Approved matches (at the chosen placement) are what the transfer posts.
+ */
+function MatchReview({ jobId }: { jobId: string }) {
+  const [job, setJob] = useState<ReviewJob | null>(null);
+  const [matches, setMatches] = useState<ReviewMatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [promoting, setPromoting] = useState(false);
+
+  const fetchMatches = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/matches`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load matches');
+        return;
+      }
+      setJob(data.job);
+      setMatches(data.matches);
+    } catch (error) {
+      console.error('Failed to fetch matches:', error);
+      setError('Failed to load matches');
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchMatches();
+  }, [fetchMatches]);
+
+  const review = async (match: ReviewMatch, status: ReviewStatus, frame?: number | null) => {
+    const response = await fetch(`/api/jobs/${jobId}/matches/${match.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status, frame }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      alert(data.error || 'Failed to save review');
+      return;
+    }
+    setMatches(current => current?.map(m => m.id === match.id
+      ? { ...m, reviewStatus: data.reviewStatus, selectedFrame: data.selectedFrame, selectedKind: data.selectedKind }
+      : m
+    ) ?? null);
+  };
+
+  const promote = async (approved: number) => {
+    if (!job || !confirm(`Post the ${approved} approved comments to ${job.targetFileName}?`)) {
+      return;
+    }
+    setPromoting(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/promote`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to start the transfer');
+      }
+      await fetchMatches();
+    } catch (error) {
+      console.error('Failed to promote dry run:', error);
+    } finally {
+      setPromoting(false);
+    }
+  };
+
+  if (error) {
+    return <div className="p-4 rounded-md bg-red-50 border border-red-200 text-red-700">{error}</div>;
+  }
+  if (!job || !matches) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const count = (status: ReviewStatus) => matches.filter(m => m.reviewStatus === status).length;
+  const reviewable = job.status === 'dry_run';
+
+  return (
+    <div>
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6 flex items-center justify-between gap-6">
+        <div>
+          <div className="text-sm text-gray-500">{job.sourceFileName} → {job.targetFileName}</div>
+          <div className="text-sm text-gray-900 mt-1">
+            {matches.length} matches · <span className="text-green-700">{count('approved')} approved</span> ·{' '}
+            <span className="text-gray-700">{count('pending')} pending</span> ·{' '}
+            <span className="text-red-700">{count('rejected')} rejected</span>
+          </div>
+          {!reviewable && (
+            <div className="text-xs text-gray-500 mt-1">Job is {job.status.replace(/_/g, ' ')} - reviews are closed. {job.message}</div>
+          )}
+        </div>
+        {reviewable && (
+          <button
+            onClick={() => promote(count('approved'))}
+            disabled={promoting || count('approved') === 0}
+            className="inline-flex items-center px-4 py-3 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            ▶️ Transfer {count('approved')} approved
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {matches.map(match => (
+          <MatchCard
+            key={match.id}
+            jobId={jobId}
+            job={job}
+            match={match}
+            reviewable={reviewable}
+            onReview={(status, frame) => review(match, status, frame)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MatchCard({ jobId, job, match, reviewable, onReview }: {
+  jobId: string;
+  job: ReviewJob;
+  match: ReviewMatch;
+  reviewable: boolean;
+  onReview: (status: ReviewStatus, frame?: number | null) => void;
+}) {
+  const [scrubbing, setScrubbing] = useState(false);
+  const chosenFrame = match.selectedFrame ?? match.targetFrameNumber;
+  const placements: Array<{ frame: number; timestamp: number; similarity: number | null; label: string; computed: boolean }> = [
+    { frame: match.targetFrameNumber, timestamp: match.targetTimestamp, similarity: match.similarity, label: 'Match', computed: true },
+    ...match.candidates.map((c, i) => ({ ...c, label: `Runner-up ${i + 1}`, computed: false })),
+  ];
+  if (match.selectedKind === 'manual' && match.selectedFrame !== null) {
+    placements.push({
+      frame: match.selectedFrame,
+      timestamp: match.selectedFrame / match.targetFps,
+      similarity: null,
+      label: 'Manual',
+      computed: false,
+    });
+  }
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-4 border-2 ${REVIEW_STYLES[match.reviewStatus]}`}>
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="min-w-0">
+          <div className="text-sm text-gray-900">{match.text}</div>
+          <div className="text-xs text-gray-500">
+            {match.author ?? 'Unknown'}{match.originVersion ? ` · v${match.originVersion}` : ''}
+            {match.sourceTimestamp !== null && ` · ${formatTimecode(match.sourceTimestamp)} on source`}
+          </div>
+          <div className="text-xs text-gray-400 mt-1 truncate" title={match.reason ?? undefined}>{match.reason}</div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {match.confidence && (
+            <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${CONFIDENCE_STYLES[match.confidence]}`}>
+              {match.confidence}
+            </span>
+          )}
+          {match.regionChanged && <span className="text-xs text-orange-700">region changed</span>}
+          {reviewable && (
+            <>
+              <button
+                onClick={() => onReview('approved')}
+                disabled={match.reviewStatus === 'approved'}
+                className="px-3 py-1 text-xs font-medium rounded-md text-green-700 bg-green-50 hover:bg-green-100 disabled:opacity-50"
+              >
+                ✓ Approve
+              </button>
+              <button
+                onClick={() => onReview('rejected')}
+                disabled={match.reviewStatus === 'rejected'}
+                className="px-3 py-1 text-xs font-medium rounded-md text-red-700 bg-red-50 hover:bg-red-100 disabled:opacity-50"
+              >
+                ✕ Reject
+              </button>
+              <button
+                onClick={() => setScrubbing(!scrubbing)}
+                className="px-3 py-1 text-xs font-medium rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100"
+              >
+                🎞️ {scrubbing ? 'Close' : 'Pick frame'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto">
+        <Thumbnail
+          jobId={jobId}
+          fileId={match.sourceFileId}
+          frame={match.sourceFrameNumber}
+          label="Source"
+          caption={match.sourceTimestamp !== null ? formatTimecode(match.sourceTimestamp) : ''}
+        />
+        <div className="self-center text-gray-400">→</div>
+        {placements.map(placement => {
+          const chosen = placement.frame === chosenFrame;
+          return (
+            <button
+              key={placement.frame}
+              onClick={() => onReview('approved', placement.computed ? null : placement.frame)}
+              disabled={!reviewable || (chosen && match.reviewStatus === 'approved')}
+              title={placement.computed ? 'Approve at the matched frame' : 'Approve at this frame instead'}
+              className={`rounded-md border-2 text-left ${chosen ? 'border-blue-500' : 'border-transparent hover:border-blue-200'}`}
+            >
+              <Thumbnail
+                jobId={jobId}
+                fileId={job.targetFileId}
+                frame={placement.frame}
+                label={chosen ? `${placement.label} (chosen)` : placement.label}
+                caption={placement.similarity !== null
+                  ? `${formatTimecode(placement.timestamp)} · ${(placement.similarity * 100).toFixed(1)}%`
+                  : formatTimecode(placement.timestamp)}
+              />
+            </button>
+          );
+        })}
+      </div>
+
+      {scrubbing && reviewable && (
+        <FrameScrubber
+          jobId={jobId}
+          fileId={job.targetFileId}
+          fps={match.targetFps}
+          startFrame={chosenFrame}
+          onChoose={frame => {
+            onReview('approved', frame === match.targetFrameNumber ? null : frame);
+            setScrubbing(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Step through the target proxy around a placement and choose an exact frame
+ */
+function FrameScrubber({ jobId, fileId, fps, startFrame, onChoose }: {
+  jobId: string;
+  fileId: string;
+  fps: number;
+  startFrame: number;
+  onChoose: (frame: number) => void;
+}) {
+  const [frame, setFrame] = useState(startFrame);
+  const [previewFrame, setPreviewFrame] = useState(startFrame);
+  const second = Math.max(1, Math.round(fps));
+  const minFrame = Math.max(0, startFrame - SCRUB_RANGE_SECONDS * second);
+  const maxFrame = startFrame + SCRUB_RANGE_SECONDS * second;
+
+  // Only fetch the frame the user settles on
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewFrame(frame), SCRUB_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [frame]);
+
+  const step = (delta: number) => setFrame(f => Math.min(maxFrame, Math.max(minFrame, f + delta)));
+  const offset = frame - startFrame;
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-md flex gap-6 items-start">
+      <Image
+        src={`/api/jobs/${jobId}/thumbnail?file=${encodeURIComponent(fileId)}&frame=${previewFrame}`}
+        alt={`Target frame ${previewFrame}`}
+        width={320}
+        height={180}
+        unoptimized
+        className="w-80 h-[180px] object-contain bg-black rounded"
+      />
+      <div className="flex-1 space-y-3">
+        <div className="font-mono text-sm text-gray-900">
+          frame {frame} · {formatTimecode(frame / fps)}
+          <span className="ml-2 text-xs text-gray-500">({offset >= 0 ? '+' : ''}{offset} frames)</span>
+        </div>
+        <input
+          type="range"
+          min={minFrame}
+          max={maxFrame}
+          value={frame}
+          onChange={event => setFrame(Number(event.target.value))}
+          className="w-full"
+        />
+        <div className="flex gap-2">
+          {[
+            { label: '−1s', delta: -second },
+            { label: '−1f', delta: -1 },
+            { label: '+1f', delta: 1 },
+            { label: '+1s', delta: second },
+          ].map(({ label, delta }) => (
+            <button
+              key={label}
+              onClick={() => step(delta)}
+              className="px-2 py-1 text-xs font-mono rounded border border-gray-300 bg-white hover:bg-gray-100"
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={() => onChoose(frame)}
+            className="ml-auto px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Use frame {frame}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Thumbnail({ jobId, fileId, frame, label, caption }: {
+  jobId: string;
+  fileId: string;
+  frame: number | null;
+  label: string;
+  caption: string;
+}) {
+  return (
+    <div className="w-40 shrink-0">
+      {frame !== null ? (
+        <Image
+          src={`/api/jobs/${jobId}/thumbnail?file=${encodeURIComponent(fileId)}&frame=${frame}`}
+          alt={`${label} frame ${frame}`}
+          width={160}
+          height={90}
+          unoptimized
+          className="w-40 h-[90px] object-contain bg-black rounded"
+        />
+      ) : (
+        <div className="w-40 h-[90px] bg-gray-100 rounded" />
+      )}
+      <div className="text-xs text-gray-700 mt-1">{label}</div>
+      <div className="text-xs text-gray-500 font-mono">{caption}</div>
+    </div>
+  );
+}
@@ -3,7 +3,10 @@
 import { useAuth } from '@/lib/auth/context';
 import { LoginButton } from '@/components/auth/LoginButton';
 import { useSearchParams } from 'next/navigation';
-import { useEffect, useState, Suspense } from 'react';
+import { useEffect, useState, Suspense, Fragment } from 'react';
+import Link from 'next/link';
+import type { VersionDiff, DiffSegment, DiffTimeRange } from '@/lib/video/version-diff';
+import type { CommentTrace } from '@/lib/video/comment-lineage';
 
 interface User {
   id: string;
@@ -119,15 +122,34 @@ interface Job {
   createdAt: Date | null;
   completedAt: Date | null;
   duration: string | null;
+  versionDiff: VersionDiff | null;
+  reverts: RevertEntry[];
   accountId: string | null;
   projectId: string | null;
 }
 
+interface RevertEntry {
+  requestedBy: { id: string; name?: string };
+  startedAt: string;
+  completedAt: string;
+  deleted?: number;
+  alreadyDeleted?: number;
+  failed?: Array<{ commentId: string; error: string }>;
+  error?: string;
+}
+
+// Mirrors REVERTIBLE_STATUSES in src/lib/video/process-job.ts
+const REVERTIBLE_STATUSES = ['completed', 'completed_with_errors', 'reverted_with_errors'];
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 function AuthenticatedView({ user }: { user: User }) {
   const [webhookUrl, setWebhookUrl] = useState<string>('');
   const [jobs, setJobs] = useState<Job[]>([]);
   const [loadingJobs, setLoadingJobs] = useState(true);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [revertingJobId, setRevertingJobId] = useState<string | null>(null);
+  const [matchesJobId, setMatchesJobId] = useState<string | null>(null);
+  const [promotingJobId, setPromotingJobId] = useState<string | null>(null);
 
   useEffect(() => {
     // Get the current webhook URL dynamically
@@ -136,22 +158,22 @@ function AuthenticatedView({ user }: { user: User }) {
     }
   }, []);
 
-  useEffect(() => {
-    // Fetch jobs for this user
-    const fetchJobs = async () => {
-      try {
-        const response = await fetch('/api/jobs');
-        if (response.ok) {
-          const data = await response.json();
-          setJobs(data.jobs);
-        }
-      } catch (error) {
-        console.error('Failed to fetch jobs:', error);
-      } finally {
-        setLoadingJobs(false);
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch('/api/jobs');
+      if (response.ok) {
+        const data = await response.json();
+        setJobs(data.jobs);
       }
-    };
+    } catch (error) {
+      console.error('Failed to fetch jobs:', error);
+    } finally {
+      setLoadingJobs(false);
+    }
+  };
 
+  useEffect(() => {
+    // Fetch jobs for this user
     fetchJobs();
     // Refresh every 10 seconds
     const interval = setInterval(fetchJobs, 10000);
@@ -165,10 +187,71 @@ function AuthenticatedView({ user }: { user: User }) {
       completed: 'bg-green-100 text-green-800',
       completed_with_errors: 'bg-yellow-100 text-yellow-800',
       failed: 'bg-red-100 text-red-800',
+      dry_run: 'bg-indigo-100 text-indigo-800',
+      reverting: 'bg-blue-100 text-blue-800',
+      reverted: 'bg-purple-100 text-purple-800',
+      reverted_with_errors: 'bg-yellow-100 text-yellow-800',
     };
     return badges[status] || 'bg-gray-100 text-gray-800';
   };
 
+  const revertJob = async (job: Job) => {
+    if (!confirm(`Delete the ${job.commentsTransferred} comments this job created on ${job.targetFileName}?`)) {
+      return;
+    }
+    setRevertingJobId(job.id);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/revert`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to revert job');
+      }
+      await fetchJobs();
+    } catch (error) {
+      console.error('Failed to revert job:', error);
+    } finally {
+      setRevertingJobId(null);
+    }
+  };
+
+  const promoteJob = async (job: Job) => {
+    if (!confirm(`Post the approved matches to ${job.targetFileName}? Pending and rejected matches are left out.`)) {
+      return;
+    }
+    setPromotingJobId(job.id);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/promote`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to promote dry run');
+      }
+      await fetchJobs();
+    } catch (error) {
+      console.error('Failed to promote dry run:', error);
+    } finally {
+      setPromotingJobId(null);
+    }
+  };
+
+  const matchesButton = (job: Job) => job.matchesFound > 0 && (
+    <button
+      onClick={() => setMatchesJobId(matchesJobId === job.id ? null : job.id)}
+      className="block text-xs text-blue-600 hover:text-blue-800"
+    >
+      {matchesJobId === job.id ? 'Hide matches' : 'View matches'}
+    </button>
+  );
+
+  const revertButton = (job: Job) => REVERTIBLE_STATUSES.includes(job.status) && job.commentsTransferred > 0 && (
+    <button
+      onClick={() => revertJob(job)}
+      disabled={revertingJobId === job.id}
+      className="block text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+    >
+      {job.status === 'reverted_with_errors' ? '↩️ Retry revert' : '↩️ Revert'}
+    </button>
+  );
+
   const formatDate = (date: Date | null | string) => {
     if (!date) return 'N/A';
     const d = new Date(date);
@@ -204,6 +287,8 @@ function AuthenticatedView({ user }: { user: User }) {
         </div>
       </div>
 
+      <CommentTraceCard />
+
       {/* Job History Table */}
       <div className="bg-white rounded-lg shadow-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -242,81 +327,140 @@ function AuthenticatedView({ user }: { user: User }) {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {jobs.map((job) => (
-                  <tr key={job.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadge(job.status)}`}>
-                        {job.status === 'processing' && (
-                          <svg className="animate-spin -ml-0.5 mr-1.5 h-3 w-3" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
+                  <Fragment key={job.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadge(job.status)}`}>
+                          {(job.status === 'processing' || job.status === 'reverting') && (
+                            <svg className="animate-spin -ml-0.5 mr-1.5 h-3 w-3" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                            </svg>
+                          )}
+                          {job.status}
+                        </span>
+                        {job.errorMessage && (
+                          <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={job.errorMessage}>
+                            {job.errorMessage}
+                          </div>
                         )}
-                        {job.status}
-                      </span>
-                      {job.errorMessage && (
-                        <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={job.errorMessage}>
-                          {job.errorMessage}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-900 font-medium truncate max-w-xs" title={job.sourceFileName}>
+                          {job.sourceFileName}
                         </div>
-                      )}
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="text-sm text-gray-900 font-medium truncate max-w-xs" title={job.sourceFileName}>
-                        {job.sourceFileName}
-                      </div>
-                      <div className="text-xs text-gray-500">→</div>
-                      <div className="text-sm text-gray-600 truncate max-w-xs" title={job.targetFileName}>
-                        {job.targetFileName}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      {job.status === 'processing' ? (
-                        <div className="space-y-1">
-                          <div className="flex items-center gap-2">
-                            <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
-                              <div 
-                                className="bg-blue-600 h-2 transition-all duration-300"
-                                style={{ width: `${job.progressPercent}%` }}
-                              />
+                        <div className="text-xs text-gray-500">→</div>
+                        <div className="text-sm text-gray-600 truncate max-w-xs" title={job.targetFileName}>
+                          {job.targetFileName}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        {job.status === 'processing' ? (
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+                                <div 
+                                  className="bg-blue-600 h-2 transition-all duration-300"
+                                  style={{ width: `${job.progressPercent}%` }}
+                                />
+                              </div>
+                              <span className="text-xs text-gray-600 font-medium">{job.progressPercent}%</span>
                             </div>
-                            <span className="text-xs text-gray-600 font-medium">{job.progressPercent}%</span>
+                            {job.message && (
+                              <div className="text-xs text-gray-500 truncate max-w-xs" title={job.message}>
+                                {job.message}
+                              </div>
+                            )}
                           </div>
-                          {job.message && (
-                            <div className="text-xs text-gray-500 truncate max-w-xs" title={job.message}>
-                              {job.message}
-                            </div>
-                          )}
-                        </div>
-                      ) : (
+                        ) : (
+                          <div className="text-sm text-gray-500">
+                            {job.commentsCount} comments
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {job.status === 'completed' || job.status === 'completed_with_errors' ? (
+                          <div className="text-sm">
+                            <div className="text-green-600 font-medium">{job.commentsTransferred} transferred</div>
+                            {job.matchesFound > 0 && job.matchesFound !== job.commentsTransferred && (
+                              <div className="text-xs text-gray-500">{job.matchesFound} matches</div>
+                            )}
+                            {job.versionDiff && (
+                              <button
+                                onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                                className="text-xs text-blue-600 hover:text-blue-800"
+                              >
+                                {expandedJobId === job.id ? 'Hide changes' : 'View changes'}
+                              </button>
+                            )}
+                            {matchesButton(job)}
+                            {revertButton(job)}
+                            <RevertSummary reverts={job.reverts} />
+                          </div>
+                        ) : job.status === 'dry_run' ? (
+                          <div className="text-sm">
+                            <div className="text-indigo-600 font-medium">{job.matchesFound} matches (dry run)</div>
+                            {job.message?.startsWith('❌') && (
+                              <div className="text-xs text-red-600 max-w-xs truncate" title={job.message}>{job.message}</div>
+                            )}
+                            {matchesButton(job)}
+                            {job.matchesFound > 0 && (
+                              <>
+                                <Link
+                                  href={`/jobs/${job.id}/review`}
+                                  className="block text-xs text-blue-600 hover:text-blue-800"
+                                >
+                                  🔎 Review matches
+                                </Link>
+                                <button
+                                  onClick={() => promoteJob(job)}
+                                  disabled={promotingJobId === job.id}
+                                  className="block text-xs text-green-600 hover:text-green-800 disabled:opacity-50"
+                                >
+                                  ▶️ Transfer approved
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        ) : job.status === 'reverting' ? (
+                          <span className="text-sm text-blue-600">Deleting comments...</span>
+                        ) : job.status === 'reverted' || job.status === 'reverted_with_errors' ? (
+                          <div className="text-sm">
+                            <RevertSummary reverts={job.reverts} />
+                            {revertButton(job)}
+                          </div>
+                        ) : job.status === 'failed' ? (
+                          <span className="text-sm text-red-600">Failed</span>
+                        ) : (
+                          <span className="text-sm text-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-gray-500">
-                          {job.commentsCount} comments
-                        </div>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      {job.status === 'completed' || job.status === 'completed_with_errors' ? (
-                        <div className="text-sm">
-                          <div className="text-green-600 font-medium">{job.commentsTransferred} transferred</div>
-                          {job.matchesFound > 0 && job.matchesFound !== job.commentsTransferred && (
-                            <div className="text-xs text-gray-500">{job.matchesFound} matches</div>
-                          )}
+                          {formatDate(job.createdAt)}
                         </div>
-                      ) : job.status === 'failed' ? (
-                        <span className="text-sm text-red-600">Failed</span>
-                      ) : (
-                        <span className="text-sm text-gray-400">—</span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-500">
-                        {formatDate(job.createdAt)}
-                      </div>
-                      {job.duration && (
-                        <div className="text-xs text-gray-400">
-                          {job.duration}
-                        </div>
-                      )}
-                    </td>
-                  </tr>
+                        {job.duration && (
+                          <div className="text-xs text-gray-400">
+                            {job.duration}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedJobId === job.id && job.versionDiff && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                          <VersionDiffPanel diff={job.versionDiff} />
+                        </td>
+                      </tr>
+                    )}
+                    {matchesJobId === job.id && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                          <MatchesPanel jobId={job.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 ))}
               </tbody>
             </table>
@@ -325,4 +469,275 @@ function AuthenticatedView({ user }: { user: User }) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface StoredMatchSummary {
+  id: string;
+  text: string;
+  author: string | null;
+  sourceTimestamp: number | null;
+  targetFrameNumber: number;
+  targetTimestamp: number;
+  similarity: number;
+  confidence: 'high' | 'medium' | 'low' | null;
+  reason: string | null;
+  originVersion: number | null;
+  regionChanged: boolean;
+}
+
+const CONFIDENCE_STYLES: Record<'high' | 'medium' | 'low', string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Stored matches of a job (what a dry run would post, or what a transfer used)
+ */
+function MatchesPanel({ jobId }: { jobId: string }) {
+  const [matches, setMatches] = useState<StoredMatchSummary[] | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/jobs/${jobId}/matches`)
+      .then(response => response.ok ? response.json() : { matches: [] })
+      .then(data => setMatches(data.matches))
+      .catch(error => {
+        console.error('Failed to fetch matches:', error);
+        setMatches([]);
+      });
+  }, [jobId]);
+
+  if (!matches) {
+    return <div className="text-sm text-gray-500">Loading matches...</div>;
+  }
+  if (matches.length === 0) {
+    return <div className="text-sm text-gray-500">No stored matches for this job.</div>;
+  }
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+          <th className="py-1 pr-6">Comment</th>
+          <th className="py-1 pr-6">Source → Target</th>
+          <th className="py-1 pr-6">Similarity</th>
+          <th className="py-1">Reason</th>
+        </tr>
+      </thead>
+      <tbody>
+        {matches.map(match => (
+          <tr key={match.id} className="align-top">
+            <td className="py-1 pr-6 text-gray-900 max-w-xs truncate" title={match.text}>
+              {match.text}
+              {match.author && <div className="text-xs text-gray-500">{match.author}{match.originVersion ? ` · v${match.originVersion}` : ''}</div>}
+            </td>
+            <td className="py-1 pr-6 font-mono text-gray-700 whitespace-nowrap">
+              {match.sourceTimestamp !== null ? formatTimecode(match.sourceTimestamp) : '—'} → {formatTimecode(match.targetTimestamp)}
+              <div className="text-xs text-gray-500">frame {match.targetFrameNumber}</div>
+            </td>
+            <td className="py-1 pr-6 whitespace-nowrap">
+              <span className="text-gray-700">{(match.similarity * 100).toFixed(1)}%</span>
+              {match.confidence && (
+                <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${CONFIDENCE_STYLES[match.confidence]}`}>
+                  {match.confidence}
+                </span>
+              )}
+              {match.regionChanged && <div className="text-xs text-orange-700">region changed</div>}
+            </td>
+            <td className="py-1 text-xs text-gray-500 max-w-md truncate" title={match.reason ?? undefined}>
+              {match.reason ?? '—'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Outcome of the latest revert attempt
+ */
+function RevertSummary({ reverts }: { reverts: RevertEntry[] }) {
+  const last = reverts[reverts.length - 1];
+  if (!last) return null;
+
+  const by = last.requestedBy.name ? ` by ${last.requestedBy.name}` : '';
+  if (last.error) {
+    return <div className="text-xs text-red-600 max-w-xs truncate" title={last.error}>Revert failed{by}: {last.error}</div>;
+  }
+  const failed = last.failed?.length ?? 0;
+  return (
+    <div className={`text-xs ${failed > 0 ? 'text-yellow-700' : 'text-purple-700'}`} title={last.failed?.map(f => `${f.commentId}: ${f.error}`).join('\n')}>
+      ↩️ {last.deleted} deleted{failed > 0 ? `, ${failed} failed` : ''}{by}
+    </div>
+  );
+}
+
+const SEGMENT_STYLES: Record<DiffSegment['type'], { label: string; className: string }> = {
+  kept: { label: 'Kept', className: 'bg-gray-100 text-gray-700' },
+  inserted: { label: 'Inserted', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+  trimmed_head: { label: 'Trimmed head', className: 'bg-orange-100 text-orange-800' },
+  trimmed_tail: { label: 'Trimmed tail', className: 'bg-orange-100 text-orange-800' },
+  moved: { label: 'Moved', className: 'bg-purple-100 text-purple-800' },
+};
+
+function formatTimecode(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${minutes}:${secs}`;
+}
+
+function formatRange(range?: DiffTimeRange) {
+  if (!range) return '—';
+  return `${formatTimecode(range.startTime)} – ${formatTimecode(range.endTime)}`;
+}
+
+function VersionDiffPanel({ diff }: { diff: VersionDiff }) {
+  // Kept segments are the unchanged baseline - only list the edits
+  const edits = diff.segments.filter(segment => segment.type !== 'kept');
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {(Object.keys(SEGMENT_STYLES) as Array<DiffSegment['type']>).map(type => (
+          <span key={type} className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${SEGMENT_STYLES[type].className}`}>
+            {SEGMENT_STYLES[type].label}: {diff.summary[type]}
+          </span>
+        ))}
+      </div>
+
+      {edits.length === 0 ? (
+        <div className="text-sm text-gray-500">No edits detected between these versions.</div>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+              <th className="py-1 pr-6">Change</th>
+              <th className="py-1 pr-6">Source</th>
+              <th className="py-1">Target</th>
+            </tr>
+          </thead>
+          <tbody>
+            {edits.map((segment, index) => (
+              <tr key={index}>
+                <td className="py-1 pr-6">
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${SEGMENT_STYLES[segment.type].className}`}>
+                    {SEGMENT_STYLES[segment.type].label}
+                  </span>
+                </td>
+                <td className="py-1 pr-6 font-mono text-gray-700">{formatRange(segment.source)}</td>
+                <td className="py-1 font-mono text-gray-700">{formatRange(segment.target)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Look up a comment by Frame.io id and show every version the note has been transferred to
+ */
+function CommentTraceCard() {
+  const [commentId, setCommentId] = useState('');
+  const [trace, setTrace] = useState<CommentTrace | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tracing, setTracing] = useState(false);
+
+  const runTrace = async () => {
+    const id = commentId.trim();
+    if (!id) return;
+    setTracing(true);
+    setError(null);
+    setTrace(null);
+    try {
+      const response = await fetch(`/api/comments/${encodeURIComponent(id)}/lineage`);
+      const data = await response.json();
+      if (response.ok) {
+        setTrace(data.trace);
+      } else {
+        setError(data.error || 'Failed to trace comment');
+      }
+    } catch (error) {
+      console.error('Failed to trace comment:', error);
+      setError('Failed to trace comment');
+    } finally {
+      setTracing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">🧬 Trace a Note</h3>
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={commentId}
+          onChange={(e) => setCommentId(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') runTrace(); }}
+          placeholder="Frame.io comment ID (any version)"
+          className="flex-1 bg-gray-50 rounded-lg border border-gray-200 px-4 py-3 text-sm font-mono text-gray-800"
+        />
+        <button
+          onClick={runTrace}
+          disabled={!commentId.trim() || tracing}
+          className="inline-flex items-center px-4 py-3 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+        >
+          {tracing ? 'Tracing...' : '🔍 Trace'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 mt-3">{error}</div>
+      )}
+      {trace && <LineagePanel trace={trace} />}
+    </div>
+  );
+}
+
+function LineagePanel({ trace }: { trace: CommentTrace }) {
+  const origin = trace.hops[0];
+
+  return (
+    <div className="mt-4">
+      <div className="text-sm text-gray-900 mb-1">&ldquo;{origin.text}&rdquo;</div>
+      <div className="text-xs text-gray-500 mb-3">
+        Written {origin.author ? `by ${origin.author} ` : ''}on {origin.sourceFile?.fileName ?? 'unknown version'}
+        {origin.originalTimestamp !== null && ` at ${formatTimecode(origin.originalTimestamp)}`}
+        {' · '}transferred {trace.hops.length} {trace.hops.length === 1 ? 'time' : 'times'}
+      </div>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+            <th className="py-1 pr-6">From</th>
+            <th className="py-1 pr-6">To</th>
+            <th className="py-1 pr-6">Position</th>
+            <th className="py-1 pr-6">Similarity</th>
+            <th className="py-1">Comment ID</th>
+          </tr>
+        </thead>
+        <tbody>
+          {trace.hops.map(hop => (
+            <tr key={hop.commentId} className={hop.commentId === trace.commentId ? 'bg-blue-50' : undefined}>
+              <td className="py-1 pr-6 text-gray-700 truncate max-w-xs" title={hop.sourceFile?.fileName}>
+                {hop.sourceFile?.fileName ?? '—'}
+              </td>
+              <td className="py-1 pr-6 text-gray-700 truncate max-w-xs" title={hop.targetFile?.fileName}>
+                {hop.targetFile?.fileName ?? '—'}
+              </td>
+              <td className="py-1 pr-6 font-mono text-gray-700">
+                {hop.originalTimestamp !== null ? formatTimecode(hop.originalTimestamp) : '—'} → {formatTimecode(hop.mappedTimestamp)}
+              </td>
+              <td className="py-1 pr-6 text-gray-700">
+                {hop.confidence !== null ? `${Math.round(hop.confidence * 100)}%` : '—'}
+              </td>
+              <td className="py-1 font-mono text-xs text-gray-500">{hop.commentId}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { popcount32 } from './perceptual-hash';
+
+/**
+ * Spectral band-energy audio fingerprint (Haitsma-Kalker style)
+ *
+ * Picture-only matching fails exactly where audio is most distinctive: black
+ * frames, holds and static shots. Each ~23ms hop gets a 32-bit sub-fingerprint:
+ * 1. Mono PCM at 5512 Hz, 1024-sample Hann window (~186ms)
+ * 2. Energy in 33 log-spaced bands between 300 and 2000 Hz
+ * 3. Bit b = sign of the band-energy difference (b vs b+1), differenced in time
+ *
+ * Bits depend only on relative energy changes, so they survive re-encoding,
+ * level changes and mild EQ. Comparing two positions is a popcount over the
+ * aligned sub-fingerprints (bit error rate, 0 = identical, ~0.5 = unrelated).
+ *
+ * Storage: 4 bytes + 4 bytes energy per hop (~2.5MB for a 2-hour master)
+ */
+export const AUDIO_SAMPLE_RATE = 5512;
+const WINDOW_SIZE = 1024;
+const HOP_SIZE = 128;
+const BAND_COUNT = 33;
+const MIN_FREQ = 300;
+const MAX_FREQ = 2000;
+
+const SILENCE_DB = -55;     // Windows quieter than this carry no usable fingerprint
+const EXCLUSION_HOPS = 11;  // ~0.25s: alignments closer than this to the best are the same match
+const UNRELATED_BER = 0.5;  // Expected bit error rate between unrelated audio
+
+export interface AudioFingerprint {
+  hopSeconds: number;
+  bits: Uint32Array;       // One 32-bit sub-fingerprint per hop
+  energyDb: Float32Array;  // Band-range energy per hop (silence detection)
+  duration: number;        // Seconds of audio fingerprinted
+}
+
+export interface AudioAlignment {
+  targetTime: number;           // Target position (seconds) aligned with the source instant
+  bitErrorRate: number;         // 0-1, lower is better (< ~0.35 is the same audio)
+  runnerUpBitErrorRate: number; // Best alignment elsewhere (0.5 if none)
+}
+
+// Hann window and band edges (FFT bin indices) computed once
+const HANN = Float64Array.from({ length: WINDOW_SIZE }, (_, i) =>
+  0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (WINDOW_SIZE - 1))
+);
+const BAND_EDGES = Array.from({ length: BAND_COUNT + 1 }, (_, b) => {
+  const freq = MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, b / BAND_COUNT);
+  return Math.round((freq * WINDOW_SIZE) / AUDIO_SAMPLE_RATE);
+});
+
+/**
+ * Streaming fingerprinter: feed PCM chunks as FFmpeg produces them,
+ * so a full-length file never has to be held in memory
+ */
+export class AudioFingerprinter {
+  private pending = new Float64Array(WINDOW_SIZE * 4);
+  private pendingLength = 0;
+  private previousBands: Float64Array | null = null;
+  private bits: number[] = [];
+  private energyDb: number[] = [];
+  private samplesSeen = 0;
+  private re = new Float64Array(WINDOW_SIZE);
+  private im = new Float64Array(WINDOW_SIZE);
+
+  push(samples: Int16Array): void {
+    this.samplesSeen += samples.length;
+
+    for (let i = 0; i < samples.length; i++) {
+      if (this.pendingLength === this.pending.length) {
+        this.compact();
+      }
+      this.pending[this.pendingLength++] = samples[i] / 32768;
+    }
+    this.compact();
+  }
+
+  finish(): AudioFingerprint {
+    return {
+      hopSeconds: HOP_SIZE / AUDIO_SAMPLE_RATE,
+      bits: Uint32Array.from(this.bits),
+      energyDb: Float32Array.from(this.energyDb),
+      duration: this.samplesSeen / AUDIO_SAMPLE_RATE,
+    };
+  }
+
+  /**
+   * Emit every complete window, then drop consumed samples
+   */
+  private compact(): void {
+    let offset = 0;
+    while (this.pendingLength - offset >= WINDOW_SIZE) {
+      this.processWindow(offset);
+      offset += HOP_SIZE;
+    }
+    this.pending.copyWithin(0, offset, this.pendingLength);
+    this.pendingLength -= offset;
+  }
+
+  private processWindow(offset: number): void {
+    for (let i = 0; i < WINDOW_SIZE; i++) {
+      this.re[i] = this.pending[offset + i] * HANN[i];
+      this.im[i] = 0;
+    }
+    fft(this.re, this.im);
+
+    const bands = new Float64Array(BAND_COUNT);
+    let total = 0;
+    for (let b = 0; b < BAND_COUNT; b++) {
+      for (let bin = BAND_EDGES[b]; bin < BAND_EDGES[b + 1]; bin++) {
+        bands[b] += this.re[bin] * this.re[bin] + this.im[bin] * this.im[bin];
+      }
+      total += bands[b];
+    }
+
+    let word = 0;
+    if (this.previousBands) {
+      for (let b = 0; b < BAND_COUNT - 1; b++) {
+        const now = bands[b] - bands[b + 1];
+        const before = this.previousBands[b] - this.previousBands[b + 1];
+        if (now - before > 0) {
+          word |= 1 << b;
+        }
+      }
+    }
+    this.previousBands = bands;
+    this.bits.push(word >>> 0);
+    this.energyDb.push(10 * Math.log10(total / WINDOW_SIZE + 1e-12));
+  }
+}
+
+/**
+ * Cross-correlate source audio around one instant against target audio
+ * around a set of candidate times (e.g. visually ambiguous target frames)
+ *
+ * Every hop within ±searchRadius of a candidate is tried as the alignment;
+ * the runner-up is the best alignment outside the winner's neighbourhood,
+ * so a distinctive sound gives a large margin and a drone or silence doesn't.
+ *
+ * @returns null when the source window is silent or no alignment overlaps enough
+ */
+export function alignAudio(
+  source: AudioFingerprint,
+  sourceTime: number,
+  target: AudioFingerprint,
+  searchTimes: number[],
+  searchRadiusSeconds: number = 1,
+  windowSeconds: number = 3
+): AudioAlignment | null {
+  const hop = source.hopSeconds;
+  const halfWindow = Math.round(windowSeconds / hop / 2);
+  const sourceCenter = Math.round(sourceTime / hop);
+  if (isSilent(source, sourceCenter - halfWindow, sourceCenter + halfWindow)) {
+    return null;
+  }
+
+  // Candidate alignments: every target hop near any search time
+  const centers = new Set<number>();
+  const radius = Math.round(searchRadiusSeconds / hop);
+  for (const time of searchTimes) {
+    const center = Math.round(time / hop);
+    for (let t = center - radius; t <= center + radius; t++) {
+      if (t >= 0 && t < target.bits.length) centers.add(t);
+    }
+  }
+
+  const scores: Array<{ center: number; bitErrorRate: number }> = [];
+  for (const targetCenter of centers) {
+    let errors = 0;
+    let compared = 0;
+    for (let k = -halfWindow; k <= halfWindow; k++) {
+      const s = sourceCenter + k;
+      const t = targetCenter + k;
+      if (s < 1 || t < 1 || s >= source.bits.length || t >= target.bits.length) continue;
+      errors += popcount32(source.bits[s] ^ target.bits[t]);
+      compared++;
+    }
+    // Require most of the window to overlap (positions near the ends of either file)
+    if (compared < halfWindow) continue;
+    scores.push({ center: targetCenter, bitErrorRate: errors / (compared * 32) });
+  }
+  if (scores.length === 0) return null;
+
+  const best = scores.reduce((prev, curr) => (curr.bitErrorRate < prev.bitErrorRate ? curr : prev));
+  if (isSilent(target, best.center - halfWindow, best.center + halfWindow)) {
+    return null;
+  }
+
+  let runnerUp = UNRELATED_BER;
+  for (const score of scores) {
+    if (Math.abs(score.center - best.center) > EXCLUSION_HOPS && score.bitErrorRate < runnerUp) {
+      runnerUp = score.bitErrorRate;
+    }
+  }
+
+  return {
+    targetTime: best.center * hop,
+    bitErrorRate: best.bitErrorRate,
+    runnerUpBitErrorRate: runnerUp,
+  };
+}
+
+function isSilent(fingerprint: AudioFingerprint, from: number, to: number): boolean {
+  let total = 0;
+  let count = 0;
+  for (let i = Math.max(0, from); i <= Math.min(fingerprint.energyDb.length - 1, to); i++) {
+    total += fingerprint.energyDb[i];
+    count++;
+  }
+  return count === 0 || total / count < SILENCE_DB;
+}
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import { HASH_BITS, HASH_WORDS, hammingDistance, type FrameHash } from './perceptual-hash';
+
+export interface HashNeighbor {
+  hash: FrameHash;
+  distance: number;
+}
+
+/**
+ * Multi-index hashing (MIH) over the 1024-bit target frame hashes
+ *
+ * Each hash is split into 32 chunks of 32 bits (one per Uint32Array word).
+ * By the pigeonhole principle, two hashes within distance d < 32 * (r + 1)
+ * must agree on at least one chunk to within r bits. So probing every chunk
+ * with all keys at radius 0..r finds every neighbour up to that distance
+ * without touching the rest of the video.
+ *
+ * Probe radius is capped at 2 (exact for distances up to EXACT_RADIUS = 95
+ * bits, ~16k lookups per query). Queries that need more fall back to a linear
+ * popcount scan, so callers keep radii within EXACT_RADIUS wherever the
+ * answer can't depend on farther frames; `stats` counts how often they don't.
+ *
+ * Storage: one sorted key array + frame index array per chunk
+ * (~8 bytes per frame per chunk, ~44MB for a 2-hour 24fps master)
+ */
+const CHUNK_COUNT = HASH_WORDS;
+const MAX_PROBE_RADIUS = 2;
+
+/**
+ * Largest Hamming radius the index answers without a linear scan
+ */
+export const EXACT_RADIUS = CHUNK_COUNT * (MAX_PROBE_RADIUS + 1) - 1;
+
+export interface HashIndexStats {
+  queries: number;
+  fullScans: number; // Queries answered by scanning every frame (MIH fallback or fused distances)
+}
+
+interface ChunkTable {
+  keys: Uint32Array;    // Sorted chunk values
+  entries: Int32Array;  // Index into hashes[] for each key
+}
+
+/**
+ * Reusable nearest-neighbour index over a target video's frame hashes
+ * Build once per target video, then query for every source comment.
+ */
+export class TargetHashIndex {
+  private hashes: FrameHash[];
+  private byFrame = new Map<number, FrameHash>();
+  private tables: ChunkTable[] = [];
+  private seenStamp: Uint32Array;
+  private queryStamp = 0;
+  private queryCount = 0;
+  private fullScanCount = 0;
+
+  constructor(hashes: FrameHash[]) {
+    this.hashes = hashes;
+    this.seenStamp = new Uint32Array(hashes.length);
+
+    for (const hash of hashes) {
+      if (hash.frameNumber !== undefined) {
+        this.byFrame.set(hash.frameNumber, hash);
+      }
+    }
+
+    for (let chunk = 0; chunk < CHUNK_COUNT; chunk++) {
+      const order = Array.from(hashes.keys()).sort(
+        (a, b) => hashes[a].bits[chunk] - hashes[b].bits[chunk]
+      );
+      const keys = new Uint32Array(order.length);
+      const entries = new Int32Array(order.length);
+      order.forEach((hashIndex, i) => {
+        keys[i] = hashes[hashIndex].bits[chunk];
+        entries[i] = hashIndex;
+      });
+      this.tables.push({ keys, entries });
+    }
+  }
+
+  get size(): number {
+    return this.hashes.length;
+  }
+
+  /**
+   * All indexed hashes in extraction order
+   */
+  all(): FrameHash[] {
+    return this.hashes;
+  }
+
+  /**
+   * O(1) lookup by target frame number (replaces targetHashes.find)
+   */
+  getByFrame(frameNumber: number): FrameHash | undefined {
+    return this.byFrame.get(frameNumber);
+  }
+
+  /**
+   * Largest radius answered without a linear scan (EXACT_RADIUS)
+   */
+  get exactRadius(): number {
+    return EXACT_RADIUS;
+  }
+
+  /**
+   * How many queries this index has answered, and how many needed a full scan
+   */
+  get stats(): HashIndexStats {
+    return { queries: this.queryCount, fullScans: this.fullScanCount };
+  }
+
+  /**
+   * Find the k nearest hashes within a Hamming radius, sorted by distance
+   * (ties broken by frame number so results are deterministic)
+   *
+   * @param query - Packed source hash
+   * @param k - Maximum number of neighbours to return (Infinity = all within radius)
+   * @param radius - Maximum Hamming distance to accept (inclusive)
+   */
+  nearest(query: Uint32Array, k: number, radius: number = HASH_BITS): HashNeighbor[] {
+    if (this.hashes.length === 0 || k <= 0) return [];
+
+    this.queryCount++;
+    const stamp = this.nextStamp();
+    const found: HashNeighbor[] = [];
+
+    for (let probeRadius = 0; probeRadius <= MAX_PROBE_RADIUS; probeRadius++) {
+      for (let chunk = 0; chunk < CHUNK_COUNT; chunk++) {
+        forEachKeyAtRadius(query[chunk], probeRadius, key => {
+          this.collectBucket(chunk, key, query, radius, stamp, found);
+        });
+      }
+
+      // Every hash within this distance is guaranteed to have been visited
+      const guaranteed = CHUNK_COUNT * (probeRadius + 1) - 1;
+      if (radius <= guaranteed) {
+        return takeNearest(found, k);
+      }
+      const exact = found.filter(n => n.distance <= guaranteed);
+      if (exact.length >= k) {
+        return takeNearest(exact, k);
+      }
+    }
+
+    // Neighbours are too far for MIH to bound - fall back to a full scan
+    this.fullScanCount++;
+    for (let i = 0; i < this.hashes.length; i++) {
+      if (this.seenStamp[i] === stamp) continue;
+      const distance = hammingDistance(query, this.hashes[i].bits);
+      if (distance <= radius) {
+        found.push({ hash: this.hashes[i], distance });
+      }
+    }
+    return takeNearest(found, k);
+  }
+
+  /**
+   * Linear k-NN under an arbitrary distance (e.g. fused multi-signature scores,
+   * which have no pigeonhole bound so MIH cannot prune them)
+   * A finite k keeps only the k best in a bounded heap instead of sorting every frame.
+   */
+  nearestBy(distanceTo: (hash: FrameHash) => number, k: number, radius: number = HASH_BITS): HashNeighbor[] {
+    if (k <= 0) return [];
+
+    this.queryCount++;
+    this.fullScanCount++;
+    const found: HashNeighbor[] = [];
+    for (const hash of this.hashes) {
+      const distance = distanceTo(hash);
+      if (distance > radius) continue;
+
+      if (found.length < k) {
+        found.push({ hash, distance });
+        if (Number.isFinite(k)) siftUp(found, found.length - 1);
+      } else if (isCloser({ hash, distance }, found[0])) {
+        found[0] = { hash, distance };
+        siftDown(found, 0);
+      }
+    }
+    return takeNearest(found, k);
+  }
+
+  private collectBucket(
+    chunk: number,
+    key: number,
+    query: Uint32Array,
+    radius: number,
+    stamp: number,
+    found: HashNeighbor[]
+  ): void {
+    const { keys, entries } = this.tables[chunk];
+    for (let i = lowerBound(keys, key); i < keys.length && keys[i] === key; i++) {
+      const hashIndex = entries[i];
+      if (this.seenStamp[hashIndex] === stamp) continue;
+      this.seenStamp[hashIndex] = stamp;
+
+      const distance = hammingDistance(query, this.hashes[hashIndex].bits);
+      if (distance <= radius) {
+        found.push({ hash: this.hashes[hashIndex], distance });
+      }
+    }
+  }
+
+  private nextStamp(): number {
+    this.queryStamp++;
+    if (this.queryStamp === 0xffffffff) {
+      this.seenStamp.fill(0);
+      this.queryStamp = 1;
+    }
+    return this.queryStamp;
+  }
+}
+
+/**
+ * Invoke callback for every 32-bit key exactly `radius` bits away from value
+ */
+function forEachKeyAtRadius(value: number, radius: number, callback: (key: number) => void): void {
+  if (radius === 0) {
+    callback(value >>> 0);
+    return;
+  }
+  if (radius === 1) {
+    for (let a = 0; a < 32; a++) {
+      callback((value ^ (1 << a)) >>> 0);
+    }
+    return;
+  }
+  for (let a = 0; a < 32; a++) {
+    for (let b = a + 1; b < 32; b++) {
+      callback((value ^ (1 << a) ^ (1 << b)) >>> 0);
+    }
+  }
+}
+
+/**
+ * First index in sorted keys whose value is >= key
+ */
+function lowerBound(keys: Uint32Array, key: number): number {
+  let lo = 0;
+  let hi = keys.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (keys[mid] < key) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Result order: distance, then frame number (deterministic ties)
+ */
+function compareNeighbors(a: HashNeighbor, b: HashNeighbor): number {
+  return a.distance - b.distance || (a.hash.frameNumber ?? 0) - (b.hash.frameNumber ?? 0);
+}
+
+function isCloser(a: HashNeighbor, b: HashNeighbor): boolean {
+  return compareNeighbors(a, b) < 0;
+}
+
+/**
+ * Max-heap on result order (the farthest of the kept neighbours at the root)
+ */
+function siftUp(heap: HashNeighbor[], index: number): void {
+  while (index > 0) {
+    const parent = (index - 1) >>> 1;
+    if (!isCloser(heap[parent], heap[index])) return;
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+}
+
+function siftDown(heap: HashNeighbor[], index: number): void {
+  for (;;) {
+    let farthest = index;
+    for (const child of [2 * index + 1, 2 * index + 2]) {
+      if (child < heap.length && isCloser(heap[farthest], heap[child])) farthest = child;
+    }
+    if (farthest === index) return;
+    [heap[farthest], heap[index]] = [heap[index], heap[farthest]];
+    index = farthest;
+  }
+}
+
+function takeNearest(found: HashNeighbor[], k: number): HashNeighbor[] {
+  found.sort(compareNeighbors);
+  return Number.isFinite(k) ? found.slice(0, k) : found;
+}
@@ -1,10 +1,63 @@
 import sharp from 'sharp';
+import type { HashNeighbor, TargetHashIndex } from './hash-index';
+import {
+  SIGNATURE_ALGORITHMS,
+  dHashBits,
+  isDHashOnly,
+  type SignatureAlgorithmId,
+  type SignatureVector,
+  type SignatureWeights,
+} from './signatures';
+
+export const HASH_BITS = 1024;
+export const HASH_WORDS = HASH_BITS / 32;
+
+// Best match further than this (61% similarity) means the shot was likely removed
+const SKIP_DISTANCE = 400;
+
+// Masked pixels are filled with flat mid grey (no gradients, identical bits in both versions)
+const MASK_FILL = 128;
 
 export interface FrameHash {
   frameNumber?: number;  // For source frames (Frame.io uses frame numbers)
   timestamp?: number;    // For target frames (in seconds)
-  hash: string;          // 256-character hex string for 1024-bit hash
+  bits: Uint32Array;     // 1024-bit hash packed into 32 words (bit i lives in word i >>> 5)
+  rawBits?: Uint32Array; // dHash of the un-normalized frame (only set when normalization is enabled)
   avgBrightness?: number; // Average brightness (0-255) for black frame detection
+  signatures?: Partial<Record<SignatureAlgorithmId, SignatureVector>>; // Extra signatures for ensemble matching
+}
+
+/**
+ * Rectangle in normalized frame coordinates (0-1, origin top-left)
+ * Resolution-independent, so it applies to downscaled proxies and full frames alike
+ */
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Photometric normalization applied before hashing (grade/exposure invariance)
+ * - none: hash the frame as decoded
+ * - equalize: per-channel histogram equalization, cancels per-channel curves
+ *   (lift/gamma/gain, white balance, exposure) that reorder luma between regions
+ * - local_contrast: equalize, then CLAHE to flatten vignettes and power windows
+ */
+export type NormalizationMode = 'none' | 'equalize' | 'local_contrast';
+
+export const NORMALIZATION_MODES: NormalizationMode[] = ['none', 'equalize', 'local_contrast'];
+
+export interface HashOptions {
+  algorithms?: SignatureAlgorithmId[]; // Extra signatures to compute alongside dHash
+  crop?: NormalizedRect;               // Active picture area (excludes letterbox/pillarbox bars)
+  normalization?: NormalizationMode;   // Grade-invariant preprocessing (default: none)
+  masks?: NormalizedRect[];            // Overlay regions neutralised before hashing (full-frame coordinates)
+}
+
+export interface MatchOptions {
+  weights?: SignatureWeights; // Fuse distances across signatures (default: dHash only)
 }
 
 export interface MatchResult {
@@ -12,7 +65,7 @@ export interface MatchResult {
   targetFrame?: number;
   confidence: 'high' | 'medium' | 'low' | 'none';
   reason: string;
-  candidates?: Array<{ frame: number; distance: number }>;
+  candidates?: Array<{ frame: number; distance: number }>; // Refinement input, or the runners-up of an ambiguous transfer
 }
 
 /**
@@ -31,60 +84,55 @@ export interface MatchResult {
  * - ✅ Better handles motion blur, similar frames, re-encoding artifacts
  * - 🎯 Improved accuracy for challenging matches
  * 
- * Storage: Hash is stored as 256-character hex string (1024 bits)
+ * Storage: Hash is kept packed in a Uint32Array (32 words = 1024 bits).
+ * Use hashToHex() only when persisting or displaying it.
  */
 export async function generateFrameHash(
   frameBuffer: Buffer,
   frameNumber?: number,
-  timestamp?: number
+  timestamp?: number,
+  options: HashOptions = {}
 ): Promise<FrameHash> {
   // Removed per-frame logging to avoid Railway rate limits (500 logs/sec)
   // Summary stats are logged by generateFrameHashes() batch function
   
   try {
     // Step 1: Resize to 33x32 and convert to grayscale (32x32 = 1024 bits)
-    const resized = await sharp(frameBuffer)
-      .resize(33, 32, { fit: 'fill' })
-      .grayscale()
-      .raw()
-      .toBuffer();
+    const original = await prepareFrame(frameBuffer, options);
+    const isNormalized = !!options.normalization && options.normalization !== 'none';
+    const image = isNormalized ? await normalizeFrame(original, options.normalization!) : original;
+    const [resized, rawResized] = await Promise.all([
+      resizeForDHash(image),
+      isNormalized ? resizeForDHash(original) : undefined,
+    ]);
 
     // Step 2: Calculate average brightness for black frame detection
+    // (measured before normalization, which would stretch a black frame into noise)
+    const brightnessSource = rawResized ?? resized;
     let totalBrightness = 0;
-    for (let i = 0; i < resized.length; i++) {
-      totalBrightness += resized[i];
+    for (let i = 0; i < brightnessSource.length; i++) {
+      totalBrightness += brightnessSource[i];
     }
-    const avgBrightness = Math.round(totalBrightness / resized.length);
+    const avgBrightness = Math.round(totalBrightness / brightnessSource.length);
 
     // Step 3: Calculate dHash by comparing adjacent pixels
-    let hash = 0n;
-    let bitIndex = 0;
-
-    for (let row = 0; row < 32; row++) {
-      for (let col = 0; col < 32; col++) {
-        const leftIndex = row * 33 + col;
-        const rightIndex = leftIndex + 1;
-        
-        const leftPixel = resized[leftIndex];
-        const rightPixel = resized[rightIndex];
-        
-        // If left pixel is brighter than right, set bit to 1
-        if (leftPixel > rightPixel) {
-          hash |= 1n << BigInt(bitIndex);
-        }
-        
-        bitIndex++;
-      }
-    }
+    const bits = dHashBits(resized);
+    const rawBits = rawResized ? dHashBits(rawResized) : undefined;
 
-    // Convert to hex string (256 characters for 1024 bits)
-    const hashString = hash.toString(16).padStart(256, '0');
+    // Step 4: Extra signatures for ensemble matching (decoded image is shared)
+    const signatures: FrameHash['signatures'] = {};
+    for (const id of options.algorithms ?? []) {
+      if (id === 'dhash') continue;
+      signatures[id] = await SIGNATURE_ALGORITHMS[id].compute(image);
+    }
 
     return {
       frameNumber,
       timestamp,
-      hash: hashString,
+      bits,
+      rawBits,
       avgBrightness,
+      signatures: options.algorithms?.length ? signatures : undefined,
     };
   } catch (error) {
     const identifier = frameNumber !== undefined ? `frame ${frameNumber}` : `timestamp ${timestamp?.toFixed(2)}s`;
@@ -95,6 +143,158 @@ export async function generateFrameHash(
   }
 }
 
+/**
+ * Decode a frame and apply preprocessing shared by every signature algorithm
+ * 1. Neutralise masked overlays (timecode, bugs, subtitles) with flat grey
+ * 2. Crop to the active picture so mattes don't dominate the hash
+ */
+async function prepareFrame(frameBuffer: Buffer, options: HashOptions): Promise<sharp.Sharp> {
+  const masks = options.masks ?? [];
+  if (!options.crop && masks.length === 0) {
+    return sharp(frameBuffer);
+  }
+
+  const { data, info } = await sharp(frameBuffer).raw().toBuffer({ resolveWithObject: true });
+  for (const mask of masks) {
+    const { left, top, width, height } = toPixelRect(mask, info.width, info.height);
+    for (let y = top; y < top + height; y++) {
+      data.fill(MASK_FILL, (y * info.width + left) * info.channels, (y * info.width + left + width) * info.channels);
+    }
+  }
+
+  const raw = { raw: { width: info.width, height: info.height, channels: info.channels } };
+  if (!options.crop) {
+    return sharp(data, raw);
+  }
+
+  const { left, top, width, height } = toPixelRect(options.crop, info.width, info.height);
+  const cropped = await sharp(data, raw)
+    .extract({ left, top, width, height })
+    .raw()
+    .toBuffer();
+
+  return sharp(cropped, { raw: { width, height, channels: info.channels } });
+}
+
+/**
+ * Normalized rect → pixel rect, clamped to the frame (at least 1x1)
+ */
+function toPixelRect(rect: NormalizedRect, frameWidth: number, frameHeight: number) {
+  const left = Math.min(frameWidth - 1, Math.max(0, Math.round(rect.x * frameWidth)));
+  const top = Math.min(frameHeight - 1, Math.max(0, Math.round(rect.y * frameHeight)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(frameWidth - left, Math.round(rect.width * frameWidth))),
+    height: Math.max(1, Math.min(frameHeight - top, Math.round(rect.height * frameHeight))),
+  };
+}
+
+async function resizeForDHash(image: sharp.Sharp): Promise<Buffer> {
+  return image.clone().resize(33, 32, { fit: 'fill' }).grayscale().raw().toBuffer();
+}
+
+/**
+ * Apply grade-invariant normalization to a decoded frame
+ * Works on a 256px-wide working copy: hashes are at most 64px, so detail
+ * beyond that only costs time.
+ */
+async function normalizeFrame(image: sharp.Sharp, mode: NormalizationMode): Promise<sharp.Sharp> {
+  const { data, info } = await image
+    .clone()
+    .resize({ width: 256, withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  equalizeChannels(data, info.channels);
+  const raw = { raw: { width: info.width, height: info.height, channels: info.channels } };
+
+  if (mode === 'local_contrast') {
+    // 8x8 tile grid, clipped so flat areas (skies, walls) don't amplify noise
+    const tile = Math.max(3, Math.round(Math.min(info.width, info.height) / 8));
+    const { data: clahe, info: claheInfo } = await sharp(data, raw)
+      .clahe({ width: tile, height: tile, maxSlope: 3 })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return sharp(clahe, { raw: { width: claheInfo.width, height: claheInfo.height, channels: claheInfo.channels } });
+  }
+
+  return sharp(data, raw);
+}
+
+/**
+ * In-place histogram equalization of each interleaved channel
+ * Maps every value to its cumulative rank, so any monotonic per-channel
+ * curve applied by a grade produces (near) identical output.
+ */
+function equalizeChannels(pixels: Buffer, channels: number): void {
+  const pixelCount = pixels.length / channels;
+  for (let channel = 0; channel < channels; channel++) {
+    const histogram = new Uint32Array(256);
+    for (let i = channel; i < pixels.length; i += channels) {
+      histogram[pixels[i]]++;
+    }
+
+    // Rank of the darkest occupied level maps to 0
+    const lut = new Uint8Array(256);
+    let cumulative = 0;
+    let minCumulative = -1;
+    for (let level = 0; level < 256; level++) {
+      cumulative += histogram[level];
+      if (minCumulative < 0 && cumulative > 0) minCumulative = cumulative;
+      const range = pixelCount - minCumulative;
+      lut[level] = range > 0 ? Math.round(((cumulative - minCumulative) / range) * 255) : 0;
+    }
+
+    for (let i = channel; i < pixels.length; i += channels) {
+      pixels[i] = lut[pixels[i]];
+    }
+  }
+}
+
+/**
+ * Parse a normalization mode from job metadata (unknown values fall back to none)
+ */
+export function parseNormalizationMode(value: unknown): NormalizationMode {
+  return NORMALIZATION_MODES.includes(value as NormalizationMode) ? value as NormalizationMode : 'none';
+}
+
+/**
+ * Serialize a packed hash to a 256-character hex string (1024 bits)
+ * Most significant word first, matching the legacy BigInt.toString(16) format
+ */
+export function hashToHex(bits: Uint32Array): string {
+  let hex = '';
+  for (let word = HASH_WORDS - 1; word >= 0; word--) {
+    hex += bits[word].toString(16).padStart(8, '0');
+  }
+  return hex;
+}
+
+/**
+ * Parse a 256-character hex string (as produced by hashToHex) back into packed form
+ */
+export function hexToHash(hex: string): Uint32Array {
+  const padded = hex.padStart(HASH_BITS / 4, '0');
+  const bits = new Uint32Array(HASH_WORDS);
+  for (let word = 0; word < HASH_WORDS; word++) {
+    const end = padded.length - word * 8;
+    bits[word] = parseInt(padded.slice(end - 8, end), 16);
+  }
+  return bits;
+}
+
+/**
+ * Count set bits in a 32-bit word (SWAR popcount, no allocations)
+ */
+export function popcount32(x: number): number {
+  x = x - ((x >>> 1) & 0x55555555);
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  x = (x + (x >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(x, 0x01010101) >>> 24;
+}
+
 /**
  * Calculate Hamming distance between two perceptual hashes
  * Returns number of differing bits (0-1024 for 1024-bit hashes)
@@ -106,29 +306,51 @@ export async function generateFrameHash(
  * - 321-400: Moderately similar (~61-69% similar)
  * - 401+: Different frames (<61% similar)
  */
-export function hammingDistance(hash1: string, hash2: string): number {
-  const bits1 = BigInt('0x' + hash1);
-  const bits2 = BigInt('0x' + hash2);
-  
-  // XOR to find differing bits
-  let xor = bits1 ^ bits2;
-  
-  // Count set bits
+export function hammingDistance(hash1: Uint32Array, hash2: Uint32Array): number {
   let distance = 0;
-  while (xor > 0n) {
-    distance += Number(xor & 1n);
-    xor >>= 1n;
+  for (let word = 0; word < HASH_WORDS; word++) {
+    distance += popcount32(hash1[word] ^ hash2[word]);
   }
-  
   return distance;
 }
 
 /**
  * Calculate similarity score between two hashes (0-1, where 1 is identical)
  */
-export function hashSimilarity(hash1: string, hash2: string): number {
+export function hashSimilarity(hash1: Uint32Array, hash2: Uint32Array): number {
   const distance = hammingDistance(hash1, hash2);
-  return 1 - (distance / 1024);
+  return 1 - (distance / HASH_BITS);
+}
+
+/**
+ * Distance between two frames in dHash bit-equivalents (0-1024)
+ * With ensemble weights, each signature's normalized distance is weighted and
+ * scaled to 1024 so the thresholds below apply unchanged.
+ */
+export function frameDistance(a: FrameHash, b: FrameHash, weights?: SignatureWeights): number {
+  if (isDHashOnly(weights)) {
+    return hammingDistance(a.bits, b.bits);
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [id, weight] of Object.entries(weights!) as Array<[SignatureAlgorithmId, number]>) {
+    if (id === 'dhash') {
+      weighted += weight * (hammingDistance(a.bits, b.bits) / HASH_BITS);
+      totalWeight += weight;
+      continue;
+    }
+    const sigA = a.signatures?.[id];
+    const sigB = b.signatures?.[id];
+    if (!sigA || !sigB) continue; // Signature not computed for this frame
+    weighted += weight * SIGNATURE_ALGORITHMS[id].distance(sigA, sigB);
+    totalWeight += weight;
+  }
+
+  if (totalWeight === 0) {
+    return hammingDistance(a.bits, b.bits);
+  }
+  return Math.round((weighted / totalWeight) * HASH_BITS);
 }
 
 /**
@@ -137,14 +359,16 @@ export function hashSimilarity(hash1: string, hash2: string): number {
  * Special handling for black frames with temporal position preference
  * 
  * @param sourceHash - Hash of the source comment frame
- * @param targetHashes - All target video hashes
+ * @param targetIndex - Nearest-neighbour index over all target video hashes
  * @param videoDuration - Duration of video in seconds (for edge detection)
+ * @param options - Ensemble weights (fused scoring scans every target frame; dHash-only uses the index)
  * @returns Match result with action, confidence, and candidates
  */
 export function matchWithConfidence(
   sourceHash: FrameHash,
-  targetHashes: FrameHash[],
-  videoDuration?: number
+  targetIndex: TargetHashIndex,
+  videoDuration?: number,
+  options: MatchOptions = {}
 ): MatchResult {
   // Detect black frames (average brightness < 30 out of 255)
   const BLACK_THRESHOLD = 30;
@@ -154,22 +378,30 @@ export function matchWithConfidence(
   const sourceTimestamp = sourceHash.timestamp ?? (sourceHash.frameNumber ? sourceHash.frameNumber / 24 : 0);
   const isNearEdge = videoDuration && (sourceTimestamp < EDGE_WINDOW_SECONDS || sourceTimestamp > videoDuration - EDGE_WINDOW_SECONDS);
   
-  // Sort by Hamming distance (best matches first)
-  const sorted = targetHashes
-    .map(t => ({ 
-      frame: t.frameNumber || 0,
-      timestamp: t.timestamp || 0,
-      distance: hammingDistance(sourceHash.hash, t.hash),
-      avgBrightness: t.avgBrightness || 0
-    }))
-    .sort((a, b) => a.distance - b.distance);
+  const { weights } = options;
+  const fused = !isDHashOnly(weights);
+  const query = (k: number, radius?: number) => fused
+    ? targetIndex.nearestBy(target => frameDistance(sourceHash, target, weights), k, radius)
+    : targetIndex.nearest(sourceHash.bits, k, radius);
+  
+  // Nearest target frame: within the index's exact range first, so only a weak
+  // best match (nothing within the exact radius, 95 bits) costs a full scan
+  let [best] = query(1, fused ? HASH_BITS : targetIndex.exactRadius).map(toCandidate);
+  if (!best && !fused) {
+    [best] = query(1).map(toCandidate);
+  }
   
-  const best = sorted[0];
-  const second = sorted[1];
+  if (!best) {
+    return {
+      action: 'skip',
+      confidence: 'none',
+      reason: 'no_target_frames'
+    };
+  }
   
   // No plausible match (shot likely deleted from edit)
   // 400/1024 = 61% similarity threshold
-  if (best.distance > 400) {
+  if (best.distance > SKIP_DISTANCE) {
     return {
       action: 'skip',
       confidence: 'none',
@@ -177,13 +409,18 @@ export function matchWithConfidence(
     };
   }
   
+  // Every frame within 50 bits of the best (best first). Exact from the index
+  // while the window fits its exact radius (best ≤ 46 bits); weaker matches need a
+  // full scan to rule out close runners-up
+  const closeMatches = query(Infinity, best.distance + 49).map(toCandidate);
+  const second = closeMatches[1];
+  
   // Black frame edge case handling
   // If source is black AND near first/last 10s AND multiple targets are equally black
   if (isBlackFrame && isNearEdge && best.avgBrightness < BLACK_THRESHOLD) {
     // Find all nearly-identical black frames (distance within 5 bits)
-    const identicalBlacks = sorted.filter(m => 
-      m.avgBrightness < BLACK_THRESHOLD && m.distance - best.distance < 5
-    );
+    const identicalBlacks = closeMatches
+      .filter(m => m.distance <= best.distance + 4 && m.avgBrightness < BLACK_THRESHOLD);
     
     if (identicalBlacks.length > 1) {
       // Prefer the frame closest to original temporal position
@@ -199,26 +436,24 @@ export function matchWithConfidence(
         action: 'transfer',
         targetFrame: preferredMatch.frame,
         confidence: 'low',
-        reason: `black_frame_temporal_preference (${identicalBlacks.length} identical blacks, chose nearest to original position)`
+        reason: `black_frame_temporal_preference (${identicalBlacks.length} identical blacks, chose nearest to original position)`,
+        candidates: identicalBlacks.slice(0, 15).map(m => ({ frame: m.frame, distance: m.distance }))
       };
     }
   }
   
   // Clear winner - high confidence
-  // Gap of 50+ bits = significant difference between 1st and 2nd place (about 5% difference)
-  const gap = second.distance - best.distance;
-  if (gap >= 50) {
+  // No other frame within 50 bits of the best (about 5% difference)
+  if (!second) {
     return {
       action: 'transfer',
       targetFrame: best.frame,
       confidence: 'high',
-      reason: `clear_winner (${(1 - best.distance / 1024).toFixed(3)} sim, ${gap} bit gap)`
+      reason: `clear_winner (${(1 - best.distance / 1024).toFixed(3)} sim, no other frame within 50 bits)`
     };
   }
   
   // Multiple close candidates (within 50 bits)
-  const closeMatches = sorted.filter(m => m.distance - best.distance < 50);
-  
   // Too many candidates = genuinely ambiguous content
   // Accept best match with low confidence
   if (closeMatches.length > 15) {
@@ -226,7 +461,8 @@ export function matchWithConfidence(
       action: 'transfer',
       targetFrame: best.frame,
       confidence: 'low',
-      reason: `ambiguous_${closeMatches.length}_similar_frames (${(1 - best.distance / 1024).toFixed(3)} sim)`
+      reason: `ambiguous_${closeMatches.length}_similar_frames (${(1 - best.distance / 1024).toFixed(3)} sim)`,
+      candidates: closeMatches.slice(0, 15).map(m => ({ frame: m.frame, distance: m.distance }))
     };
   }
   
@@ -236,7 +472,36 @@ export function matchWithConfidence(
     targetFrame: best.frame,
     confidence: 'medium',
     reason: `needs_refinement (${closeMatches.length} candidates within 50 bits)`,
-    candidates: closeMatches.slice(0, 5)
+    candidates: closeMatches.slice(0, 5).map(m => ({ frame: m.frame, distance: m.distance }))
+  };
+}
+
+/**
+ * Explain when normalization is what made a match possible: the normalized
+ * frames are within the skip cutoff but the frames as decoded are not
+ * (e.g. the target is a heavy regrade of the source)
+ *
+ * @returns Reason suffix, or null if the raw frames would have matched anyway
+ */
+export function describeNormalizationRescue(source: FrameHash, target: FrameHash): string | null {
+  if (!source.rawBits || !target.rawBits) return null;
+
+  const rawDistance = hammingDistance(source.rawBits, target.rawBits);
+  if (rawDistance <= SKIP_DISTANCE) return null;
+
+  const normalizedDistance = hammingDistance(source.bits, target.bits);
+  return `normalization_enabled_match (raw ${(1 - rawDistance / HASH_BITS).toFixed(3)} sim → normalized ${(1 - normalizedDistance / HASH_BITS).toFixed(3)} sim)`;
+}
+
+/**
+ * Flatten an index neighbour into the fields the matcher inspects
+ */
+function toCandidate(neighbor: HashNeighbor) {
+  return {
+    frame: neighbor.hash.frameNumber || 0,
+    timestamp: neighbor.hash.timestamp || 0,
+    distance: neighbor.distance,
+    avgBrightness: neighbor.hash.avgBrightness || 0,
   };
 }
 
@@ -246,13 +511,15 @@ export function matchWithConfidence(
  * 
  * @param sourceNeighborHashes - 5 hashes centered on source comment frame
  * @param candidates - Top candidate matches from initial matching
- * @param targetHashes - All target video hashes
+ * @param targetIndex - Nearest-neighbour index over all target video hashes
+ * @param options - Ensemble weights (same as used for initial matching)
  * @returns Refined match result with updated confidence
  */
 export function refineWithNeighbors(
   sourceNeighborHashes: FrameHash[],
   candidates: Array<{ frame: number; distance: number }>,
-  targetHashes: FrameHash[]
+  targetIndex: TargetHashIndex,
+  options: MatchOptions = {}
 ): MatchResult {
   if (sourceNeighborHashes.length !== 5) {
     throw new Error('refineWithNeighbors requires exactly 5 neighbor hashes');
@@ -268,10 +535,10 @@ export function refineWithNeighbors(
     for (let i = 0; i < 5; i++) {
       const offset = neighborOffsets[i];
       const targetFrameNum = candidate.frame + offset;
-      const targetHash = targetHashes.find(h => h.frameNumber === targetFrameNum);
+      const targetHash = targetIndex.getByFrame(targetFrameNum);
       
       if (targetHash) {
-        totalDistance += hammingDistance(sourceNeighborHashes[i].hash, targetHash.hash);
+        totalDistance += frameDistance(sourceNeighborHashes[i], targetHash, options.weights);
       } else {
         // Penalty for missing neighbor (edge of video or frame extraction issue)
         totalDistance += 512; // 50% similarity penalty
@@ -311,7 +578,8 @@ export function refineWithNeighbors(
     action: 'transfer',
     targetFrame: best.frame,
     confidence: 'low',
-    reason: `refined_weak (${improvementGap} bit gap)`
+    reason: `refined_weak (${improvementGap} bit gap)`,
+    candidates: scores.map(s => ({ frame: s.frame, distance: Math.round(s.score / 5) }))
   };
 }
 
@@ -320,13 +588,14 @@ export function refineWithNeighbors(
  * Supports both frame-based (source) and time-based (target) frames
  */
 export async function generateFrameHashes(
-  frames: Array<{ frameNumber?: number; timestamp?: number; buffer: Buffer }>
+  frames: Array<{ frameNumber?: number; timestamp?: number; buffer: Buffer }>,
+  options: HashOptions = {}
 ): Promise<FrameHash[]> {
   console.log(`🔍 Generating hashes for ${frames.length} frames...`);
   const startTime = Date.now();
   
   const hashes = await Promise.all(
-    frames.map(frame => generateFrameHash(frame.buffer, frame.frameNumber, frame.timestamp))
+    frames.map(frame => generateFrameHash(frame.buffer, frame.frameNumber, frame.timestamp, options))
   );
   
   const duration = Date.now() - startTime;
@@ -0,0 +1,215 @@
+import type { Sharp } from 'sharp';
+import { popcount32 } from './perceptual-hash';
+
+export type SignatureAlgorithmId = 'dhash' | 'phash' | 'ahash' | 'blockmean' | 'colorhist';
+
+/**
+ * Binary signatures are packed bits compared by Hamming distance.
+ * Histogram signatures are normalized bin weights compared by L1 distance.
+ */
+export type SignatureVector = Uint32Array | Float32Array;
+
+export type SignatureWeights = Partial<Record<SignatureAlgorithmId, number>>;
+
+export interface FrameSignatureAlgorithm {
+  id: SignatureAlgorithmId;
+  description: string;
+  /** Compute the signature from a decoded frame (clone before mutating the pipeline) */
+  compute(image: Sharp): Promise<SignatureVector>;
+  /** Normalized distance between two signatures (0 = identical, 1 = maximally different) */
+  distance(a: SignatureVector, b: SignatureVector): number;
+}
+
+export const DEFAULT_SIGNATURE_WEIGHTS: SignatureWeights = { dhash: 1 };
+
+/**
+ * Pack boolean comparisons into a Uint32Array (bit i lives in word i >>> 5)
+ */
+function packBits(count: number, isSet: (i: number) => boolean): Uint32Array {
+  const bits = new Uint32Array(Math.ceil(count / 32));
+  for (let i = 0; i < count; i++) {
+    if (isSet(i)) {
+      bits[i >>> 5] |= 1 << (i & 31);
+    }
+  }
+  return bits;
+}
+
+function normalizedHamming(a: SignatureVector, b: SignatureVector): number {
+  let distance = 0;
+  for (let word = 0; word < a.length; word++) {
+    distance += popcount32(a[word] ^ b[word]);
+  }
+  return distance / (a.length * 32);
+}
+
+function median(values: ArrayLike<number>): number {
+  const sorted = Array.from(values).sort((x, y) => x - y);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+async function grayscalePixels(image: Sharp, width: number, height: number): Promise<Buffer> {
+  return image.clone().resize(width, height, { fit: 'fill' }).grayscale().raw().toBuffer();
+}
+
+/**
+ * dHash gradient bits from a (size+1) x size grayscale buffer
+ * Bit is set when a pixel is brighter than its right-hand neighbour
+ */
+export function dHashBits(pixels: Buffer, size: number = 32): Uint32Array {
+  return packBits(size * size, i => {
+    const row = Math.floor(i / size);
+    const col = i % size;
+    const left = row * (size + 1) + col;
+    return pixels[left] > pixels[left + 1];
+  });
+}
+
+// DCT-II basis for 32x32 pHash (computed once)
+const DCT_SIZE = 32;
+const DCT_KEEP = 16; // Low-frequency 16x16 block = 256 bits
+const DCT_COS = Array.from({ length: DCT_KEEP }, (_, u) =>
+  Float64Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+);
+
+const dhash: FrameSignatureAlgorithm = {
+  id: 'dhash',
+  description: '1024-bit horizontal gradient hash (default, robust to re-encoding)',
+  async compute(image) {
+    return dHashBits(await grayscalePixels(image, 33, 32));
+  },
+  distance: normalizedHamming,
+};
+
+const phash: FrameSignatureAlgorithm = {
+  id: 'phash',
+  description: '256-bit DCT hash (robust to gamma and contrast changes)',
+  async compute(image) {
+    const pixels = await grayscalePixels(image, DCT_SIZE, DCT_SIZE);
+
+    // Separable 2D DCT, keeping only the low-frequency block
+    const rows = Array.from({ length: DCT_SIZE }, (_, y) =>
+      Float64Array.from({ length: DCT_KEEP }, (_, u) => {
+        let sum = 0;
+        for (let x = 0; x < DCT_SIZE; x++) sum += pixels[y * DCT_SIZE + x] * DCT_COS[u][x];
+        return sum;
+      })
+    );
+    const coefficients = new Float64Array(DCT_KEEP * DCT_KEEP);
+    for (let v = 0; v < DCT_KEEP; v++) {
+      for (let u = 0; u < DCT_KEEP; u++) {
+        let sum = 0;
+        for (let y = 0; y < DCT_SIZE; y++) sum += rows[y][u] * DCT_COS[v][y];
+        coefficients[v * DCT_KEEP + u] = sum;
+      }
+    }
+
+    // Median excludes the DC term (overall brightness)
+    const threshold = median(coefficients.subarray(1));
+    return packBits(coefficients.length, i => coefficients[i] > threshold);
+  },
+  distance: normalizedHamming,
+};
+
+const ahash: FrameSignatureAlgorithm = {
+  id: 'ahash',
+  description: '256-bit average hash (fast, tolerant of blur and scaling)',
+  async compute(image) {
+    const pixels = await grayscalePixels(image, 16, 16);
+    let total = 0;
+    for (let i = 0; i < pixels.length; i++) total += pixels[i];
+    const mean = total / pixels.length;
+    return packBits(pixels.length, i => pixels[i] > mean);
+  },
+  distance: normalizedHamming,
+};
+
+const blockmean: FrameSignatureAlgorithm = {
+  id: 'blockmean',
+  description: '256-bit block-mean hash (16x16 block means vs median)',
+  async compute(image) {
+    const SIZE = 64;
+    const BLOCKS = 16;
+    const BLOCK = SIZE / BLOCKS;
+    const pixels = await grayscalePixels(image, SIZE, SIZE);
+
+    const means = new Float64Array(BLOCKS * BLOCKS);
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        means[Math.floor(y / BLOCK) * BLOCKS + Math.floor(x / BLOCK)] += pixels[y * SIZE + x];
+      }
+    }
+    const threshold = median(means);
+    return packBits(means.length, i => means[i] > threshold);
+  },
+  distance: normalizedHamming,
+};
+
+const colorhist: FrameSignatureAlgorithm = {
+  id: 'colorhist',
+  description: '64-bin RGB histogram (structure-free, catches re-encodes with geometry changes)',
+  async compute(image) {
+    const LEVELS = 4; // 4x4x4 bins
+    const pixels = await image.clone().resize(64, 64, { fit: 'fill' }).removeAlpha().raw().toBuffer();
+    const histogram = new Float32Array(LEVELS * LEVELS * LEVELS);
+    const pixelCount = pixels.length / 3;
+
+    for (let i = 0; i < pixels.length; i += 3) {
+      const r = (pixels[i] * LEVELS) >> 8;
+      const g = (pixels[i + 1] * LEVELS) >> 8;
+      const b = (pixels[i + 2] * LEVELS) >> 8;
+      histogram[(r * LEVELS + g) * LEVELS + b] += 1 / pixelCount;
+    }
+    return histogram;
+  },
+  distance(a, b) {
+    let l1 = 0;
+    for (let i = 0; i < a.length; i++) l1 += Math.abs(a[i] - b[i]);
+    return l1 / 2;
+  },
+};
+
+export const SIGNATURE_ALGORITHMS: Record<SignatureAlgorithmId, FrameSignatureAlgorithm> = {
+  dhash,
+  phash,
+  ahash,
+  blockmean,
+  colorhist,
+};
+
+/**
+ * Parse signature weights from job metadata, e.g. { dhash: 1, phash: 0.5 }
+ * Unknown algorithms and non-positive weights are ignored.
+ * Falls back to dHash only when nothing valid is configured.
+ */
+export function parseSignatureWeights(value: unknown): SignatureWeights {
+  if (!value || typeof value !== 'object') {
+    return DEFAULT_SIGNATURE_WEIGHTS;
+  }
+
+  const weights: SignatureWeights = {};
+  for (const [id, weight] of Object.entries(value as Record<string, unknown>)) {
+    if (id in SIGNATURE_ALGORITHMS && typeof weight === 'number' && weight > 0) {
+      weights[id as SignatureAlgorithmId] = weight;
+    }
+  }
+
+  return Object.keys(weights).length > 0 ? weights : DEFAULT_SIGNATURE_WEIGHTS;
+}
+
+/**
+ * True when matching can use the dHash-only fast path (MIH index lookups)
+ */
+export function isDHashOnly(weights?: SignatureWeights): boolean {
+  if (!weights) return true;
+  return Object.keys(weights).every(id => id === 'dhash');
+}
+
+/**
+ * Extra algorithms to compute alongside the primary dHash
+ */
+export function extraSignatureAlgorithms(weights?: SignatureWeights): SignatureAlgorithmId[] {
+  if (!weights) return [];
+  return (Object.keys(weights) as SignatureAlgorithmId[]).filter(id => id !== 'dhash');
+}
@@ -0,0 +1,6 @@
+-- Migration 005: Store the version diff (edit list) computed for each job
+
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS version_diff JSONB; -- Kept/inserted/removed/trimmed/moved segments
+
+COMMENT ON COLUMN processing_jobs.version_diff IS 'Structured edit list between source and target versions (see src/lib/video/version-diff.ts)';
@@ -0,0 +1,14 @@
+-- Migration 006: Record where each transferred comment came from (lineage across versions)
+
+ALTER TABLE comments
+ADD COLUMN IF NOT EXISTS source_comment_id VARCHAR(255), -- Frame.io comment the transfer was copied from
+ADD COLUMN IF NOT EXISTS source_video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES processing_jobs(id) ON DELETE SET NULL;
+
+-- Walk lineage forwards (copies of a comment on later versions)
+CREATE INDEX IF NOT EXISTS idx_comments_source_comment_id ON comments (source_comment_id);
+CREATE INDEX IF NOT EXISTS idx_comments_job_id ON comments (job_id);
+
+COMMENT ON COLUMN comments.source_comment_id IS 'Frame.io id of the comment this one was transferred from; chains of these trace a note across versions';
+COMMENT ON COLUMN comments.original_timestamp IS 'Position (seconds) of the source comment on the source version';
+COMMENT ON COLUMN comments.timestamp_seconds IS 'Position (seconds) the comment was placed at on its own version';
@@ -0,0 +1,17 @@
+-- Migration 007: Store every match a job computed (dry runs, review, promotion without re-decoding)
+
+CREATE TABLE IF NOT EXISTS comment_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES processing_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL, -- Order in the job's match list (target timeline order)
+  source_comment_id VARCHAR(255) NOT NULL,
+  target_frame_number INTEGER NOT NULL,
+  target_timestamp DECIMAL(10,3) NOT NULL,
+  similarity DECIMAL(5,4) NOT NULL,
+  confidence VARCHAR(20), -- high | medium | low
+  reason TEXT,
+  match TEXT NOT NULL, -- Full CommentMatch as JSON (source comment, range, geometry, region, ...)
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_matches_job_id ON comment_matches (job_id, position);
@@ -0,0 +1,10 @@
+-- Migration 008: Review decisions on stored matches (only approved matches are posted on promotion)
+
+ALTER TABLE comment_matches
+  ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending | approved | rejected
+  ADD COLUMN IF NOT EXISTS selected_frame_number INTEGER, -- Runner-up picked by the reviewer (target frames)
+  ADD COLUMN IF NOT EXISTS selected_timestamp DECIMAL(10,3),
+  ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(255), -- Frame.io user ID
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+
+COMMENT ON COLUMN comment_matches.review_status IS 'High-confidence matches start approved, the rest pending';
@@ -0,0 +1,24 @@
+-- Migration 009: Log every placement a reviewer chose over the matcher's (tuning data for matchWithConfidence)
+
+CREATE TABLE IF NOT EXISTS placement_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES processing_jobs(id) ON DELETE CASCADE,
+  match_id UUID REFERENCES comment_matches(id) ON DELETE SET NULL, -- Cleared if the job is re-matched
+  source_comment_id VARCHAR(255) NOT NULL,
+  source_frame_number INTEGER,
+  kind VARCHAR(20) NOT NULL, -- runner_up | manual (scrubbed)
+  original_frame_number INTEGER NOT NULL, -- Matcher's placement (target frames)
+  original_timestamp DECIMAL(10,3) NOT NULL,
+  original_similarity DECIMAL(5,4) NOT NULL,
+  original_confidence VARCHAR(20),
+  original_match TEXT NOT NULL, -- Full CommentMatch as JSON (reason, runner-ups, range, ...)
+  override_frame_number INTEGER NOT NULL,
+  override_timestamp DECIMAL(10,3) NOT NULL,
+  overridden_by VARCHAR(255) NOT NULL, -- Frame.io user ID
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_placement_overrides_job_id ON placement_overrides (job_id);
+CREATE INDEX IF NOT EXISTS idx_placement_overrides_created_at ON placement_overrides (created_at);
+
+COMMENT ON TABLE placement_overrides IS 'Append-only log of reviewer placements (see migration 014 for which rows are current)';
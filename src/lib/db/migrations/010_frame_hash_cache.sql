@@ -0,0 +1,18 @@
+-- Migration 010: Turn the frames table into a per-file frame hash cache
+-- Each row holds a run of consecutive frame hashes of one Frame.io file (videos row),
+-- packed and base64-encoded, starting at frame_number. A set of rows is keyed by the
+-- file's media fingerprint and the hash settings it was computed with.
+-- The table was never written, so the per-frame hash column is dropped outright.
+
+DROP INDEX IF EXISTS idx_frames_hash;
+DROP INDEX IF EXISTS idx_frames_video_frame;
+ALTER TABLE frames DROP COLUMN IF EXISTS hash;
+
+ALTER TABLE frames
+  ADD COLUMN IF NOT EXISTS fingerprint VARCHAR(255) NOT NULL DEFAULT '', -- File size + proxy geometry/rate/length
+  ADD COLUMN IF NOT EXISTS options_key VARCHAR(64) NOT NULL DEFAULT '', -- Digest of the hash settings (crop, masks, normalization, signatures)
+  ADD COLUMN IF NOT EXISTS frame_count INTEGER NOT NULL DEFAULT 0, -- Frames packed in this row
+  ADD COLUMN IF NOT EXISTS total_frames INTEGER NOT NULL DEFAULT 0, -- Frames in the whole set (detects partial writes)
+  ADD COLUMN IF NOT EXISTS hashes TEXT NOT NULL DEFAULT '';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_frames_hash_set ON frames (video_id, fingerprint, options_key, frame_number);
@@ -0,0 +1,29 @@
+-- Migration 011: Durable job queue (processing, promotion and revert run on workers, not in request handlers)
+-- Workers claim tasks with FOR UPDATE SKIP LOCKED and hold a lease they extend with heartbeats;
+-- a task whose lease runs out is picked up again by another worker.
+
+CREATE TABLE IF NOT EXISTS job_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES processing_jobs(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL, -- process | promote | revert
+  payload TEXT, -- JSON string: kind-specific arguments (revert: requestedBy, previousStatus)
+  account_id VARCHAR(255), -- Frame.io account (per-account concurrency cap)
+  status VARCHAR(20) NOT NULL DEFAULT 'queued', -- queued | running | succeeded | failed
+  attempts INTEGER NOT NULL DEFAULT 0, -- Claims so far, including ones whose lease expired
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(), -- Not claimed before this (retry backoff)
+  locked_by VARCHAR(255), -- Worker id holding the lease
+  locked_until TIMESTAMP, -- Lease expiry, pushed forward by heartbeats
+  heartbeat_at TIMESTAMP,
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_claim ON job_queue (status, run_at);
+CREATE INDEX IF NOT EXISTS idx_job_queue_running_account ON job_queue (account_id) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_job_queue_job_id ON job_queue (job_id);
+
+-- At most one queued or running task per job (double-clicks and webhook retries enqueue nothing)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_queue_active_job ON job_queue (job_id) WHERE status IN ('queued', 'running');
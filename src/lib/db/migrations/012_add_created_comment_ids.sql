@@ -0,0 +1,18 @@
+-- Migration 012: Keep the ids of the comments each job created on the job itself
+-- Reverts delete exactly these; lineage rows are best-effort and can be missing.
+
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS created_comment_ids JSONB; -- Frame.io comment ids posted by the job
+
+-- Jobs from before this migration: take the ids from their lineage rows
+UPDATE processing_jobs j
+SET created_comment_ids = c.ids
+FROM (
+  SELECT job_id, jsonb_agg(frameio_comment_id) AS ids
+  FROM comments
+  WHERE job_id IS NOT NULL
+  GROUP BY job_id
+) c
+WHERE c.job_id = j.id AND j.created_comment_ids IS NULL;
+
+COMMENT ON COLUMN processing_jobs.created_comment_ids IS 'Frame.io ids of comments the job posted on the target (removed as a revert deletes them)';
@@ -0,0 +1,16 @@
+-- Migration 013: Per-file cache of crop and overlay detection
+-- Both sample-decode the proxy before any hashing, and their results are part of the
+-- frame hash cache key, so a cached file still paid for them on every job. One row per
+-- Frame.io file (videos row) and media fingerprint; columns stay NULL until detected.
+
+CREATE TABLE IF NOT EXISTS media_detections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  fingerprint VARCHAR(255) NOT NULL, -- File size + proxy geometry/rate/length (see frame-hash-cache.ts)
+  crop JSONB, -- Letterbox/pillarbox detection (CropDetection)
+  changing_regions JSONB, -- Regions that change on every frame (burned-in timecode, counters)
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_detections_file ON media_detections (video_id, fingerprint);
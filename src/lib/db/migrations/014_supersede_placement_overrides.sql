@@ -0,0 +1,25 @@
+-- Migration 014: Mark placement overrides that no longer describe what would be posted
+-- A reviewer can clear a selection or reject the match after overriding it; neither
+-- writes a new row, so the latest row alone can't be trusted as the posted placement.
+
+ALTER TABLE placement_overrides
+ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP; -- Set when the selection is cleared, replaced or its match is no longer approved
+
+-- Existing rows: only the latest override of a match still approved at that frame stays active
+UPDATE placement_overrides o
+SET superseded_at = NOW()
+WHERE o.superseded_at IS NULL
+  AND (
+    EXISTS (
+      SELECT 1 FROM placement_overrides newer
+      WHERE newer.match_id = o.match_id AND newer.created_at > o.created_at
+    )
+    OR NOT EXISTS (
+      SELECT 1 FROM comment_matches m
+      WHERE m.id = o.match_id
+        AND m.review_status = 'approved'
+        AND m.selected_frame_number = o.override_frame_number
+    )
+  );
+
+COMMENT ON TABLE placement_overrides IS 'Append-only log; rows without superseded_at are placements of approved matches (what is posted)';
@@ -1,5 +1,8 @@
-import { pgTable, uuid, varchar, integer, decimal, text, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, integer, decimal, text, timestamp, jsonb } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { VersionDiff } from '../video/version-diff';
+import type { CropDetection } from '../video/frame-extractor';
+import type { NormalizedRect } from '../ai/perceptual-hash';
 
 // Videos table - stores Frame.io video metadata
 export const videos = pgTable('videos', {
@@ -13,15 +16,29 @@ export const videos = pgTable('videos', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
-// Frames table - stores extracted video frames with perceptual hashes
+// Frames table - frame hash cache, one row per run of consecutive frames of a video
 export const frames = pgTable('frames', {
   id: uuid('id').primaryKey().defaultRandom(),
   videoId: uuid('video_id').references(() => videos.id).notNull(),
-  timestampSeconds: decimal('timestamp_seconds', { precision: 10, scale: 3 }).notNull(),
-  frameNumber: integer('frame_number').notNull(),
-  // Perceptual hash (dHash) - 16 character hex string (64-bit hash)
-  hash: varchar('hash', { length: 16 }).notNull(),
+  timestampSeconds: decimal('timestamp_seconds', { precision: 10, scale: 3 }).notNull(), // First frame in the row
+  frameNumber: integer('frame_number').notNull(), // First frame in the row
+  fingerprint: varchar('fingerprint', { length: 255 }).notNull(), // Media fingerprint (size + proxy geometry/rate/length)
+  optionsKey: varchar('options_key', { length: 64 }).notNull(), // Digest of the hash settings
+  frameCount: integer('frame_count').notNull(), // Frames packed in this row
+  totalFrames: integer('total_frames').notNull(), // Frames in the whole set
+  hashes: text('hashes').notNull(), // Base64 of packed FrameHash records
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Media detections table - crop and overlay detection per video and media fingerprint
+export const mediaDetections = pgTable('media_detections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  videoId: uuid('video_id').references(() => videos.id, { onDelete: 'cascade' }).notNull(),
+  fingerprint: varchar('fingerprint', { length: 255 }).notNull(), // Media fingerprint (size + proxy geometry/rate/length)
+  crop: jsonb('crop').$type<CropDetection>(), // Letterbox/pillarbox detection
+  changingRegions: jsonb('changing_regions').$type<NormalizedRect[]>(), // Regions that change on every frame
   createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
 });
 
 // Comments table - stores Frame.io comments and transferred comments
@@ -36,6 +53,10 @@ export const comments = pgTable('comments', {
   originalTimestamp: decimal('original_timestamp', { precision: 10, scale: 3 }),
   // AI match confidence score (0.0 to 1.0)
   confidenceScore: decimal('confidence_score', { precision: 3, scale: 2 }),
+  // Lineage - the comment this one was transferred from, its version and the job that copied it
+  sourceCommentId: varchar('source_comment_id', { length: 255 }),
+  sourceVideoId: uuid('source_video_id').references(() => videos.id, { onDelete: 'cascade' }),
+  jobId: uuid('job_id').references(() => processingJobs.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -63,6 +84,48 @@ export const processingJobs = pgTable('processing_jobs', {
   userName: varchar('user_name', { length: 255 }),
   userEmail: varchar('user_email', { length: 255 }),
   metadata: text('metadata'), // JSON string for additional data
+  versionDiff: jsonb('version_diff').$type<VersionDiff>(), // Edit list between source and target versions
+  createdCommentIds: jsonb('created_comment_ids').$type<string[]>(), // Comments the job posted (what a revert deletes)
+});
+
+// Comment matches table - every match a job computed, kept for dry runs, review and promotion
+export const commentMatches = pgTable('comment_matches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => processingJobs.id, { onDelete: 'cascade' }).notNull(),
+  position: integer('position').notNull(), // Order in the job's match list
+  sourceCommentId: varchar('source_comment_id', { length: 255 }).notNull(),
+  targetFrameNumber: integer('target_frame_number').notNull(),
+  targetTimestamp: decimal('target_timestamp', { precision: 10, scale: 3 }).notNull(),
+  similarity: decimal('similarity', { precision: 5, scale: 4 }).notNull(),
+  confidence: varchar('confidence', { length: 20 }), // high | medium | low
+  reason: text('reason'),
+  match: text('match').notNull(), // JSON string: the full CommentMatch
+  reviewStatus: varchar('review_status', { length: 20 }).notNull().default('pending'), // pending | approved | rejected
+  selectedFrameNumber: integer('selected_frame_number'), // Runner-up picked by the reviewer
+  selectedTimestamp: decimal('selected_timestamp', { precision: 10, scale: 3 }),
+  reviewedBy: varchar('reviewed_by', { length: 255 }), // Frame.io user ID
+  reviewedAt: timestamp('reviewed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Placement overrides - every placement a reviewer chose over the matcher's (tuning data)
+export const placementOverrides = pgTable('placement_overrides', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => processingJobs.id, { onDelete: 'cascade' }).notNull(),
+  matchId: uuid('match_id').references(() => commentMatches.id, { onDelete: 'set null' }), // Cleared if the job is re-matched
+  sourceCommentId: varchar('source_comment_id', { length: 255 }).notNull(),
+  sourceFrameNumber: integer('source_frame_number'),
+  kind: varchar('kind', { length: 20 }).notNull(), // runner_up | manual
+  originalFrameNumber: integer('original_frame_number').notNull(),
+  originalTimestamp: decimal('original_timestamp', { precision: 10, scale: 3 }).notNull(),
+  originalSimilarity: decimal('original_similarity', { precision: 5, scale: 4 }).notNull(),
+  originalConfidence: varchar('original_confidence', { length: 20 }),
+  originalMatch: text('original_match').notNull(), // JSON string: the CommentMatch as computed
+  overrideFrameNumber: integer('override_frame_number').notNull(),
+  overrideTimestamp: decimal('override_timestamp', { precision: 10, scale: 3 }).notNull(),
+  overriddenBy: varchar('overridden_by', { length: 255 }).notNull(), // Frame.io user ID
+  createdAt: timestamp('created_at').defaultNow(),
+  supersededAt: timestamp('superseded_at'), // Selection cleared, replaced or match no longer approved
 });
 
 // User tokens table - stores OAuth tokens for server-side access
@@ -79,10 +142,32 @@ export const userTokens = pgTable('user_tokens', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Job queue table - processing, promotion and revert tasks claimed by workers under a lease
+export const jobQueue = pgTable('job_queue', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => processingJobs.id, { onDelete: 'cascade' }).notNull(),
+  kind: varchar('kind', { length: 20 }).notNull(), // process | promote | revert
+  payload: text('payload'), // JSON string: kind-specific arguments
+  accountId: varchar('account_id', { length: 255 }), // Frame.io account (per-account concurrency cap)
+  status: varchar('status', { length: 20 }).notNull().default('queued'), // queued | running | succeeded | failed
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(3),
+  runAt: timestamp('run_at').notNull().defaultNow(), // Not claimed before this (retry backoff)
+  lockedBy: varchar('locked_by', { length: 255 }), // Worker id holding the lease
+  lockedUntil: timestamp('locked_until'), // Lease expiry, pushed forward by heartbeats
+  heartbeatAt: timestamp('heartbeat_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  completedAt: timestamp('completed_at'),
+});
+
 // Define relations between tables
 export const videosRelations = relations(videos, ({ many }) => ({
   frames: many(frames),
-  comments: many(comments),
+  mediaDetections: many(mediaDetections),
+  comments: many(comments, { relationName: 'commentVideo' }),
+  transferredComments: many(comments, { relationName: 'commentSourceVideo' }),
   sourceProcessingJobs: many(processingJobs, { relationName: 'sourceVideo' }),
   targetProcessingJobs: many(processingJobs, { relationName: 'targetVideo' }),
 }));
@@ -94,14 +179,35 @@ export const framesRelations = relations(frames, ({ one }) => ({
   }),
 }));
 
+export const mediaDetectionsRelations = relations(mediaDetections, ({ one }) => ({
+  video: one(videos, {
+    fields: [mediaDetections.videoId],
+    references: [videos.id],
+  }),
+}));
+
 export const commentsRelations = relations(comments, ({ one }) => ({
   video: one(videos, {
     fields: [comments.videoId],
     references: [videos.id],
+    relationName: 'commentVideo',
+  }),
+  sourceVideo: one(videos, {
+    fields: [comments.sourceVideoId],
+    references: [videos.id],
+    relationName: 'commentSourceVideo',
+  }),
+  job: one(processingJobs, {
+    fields: [comments.jobId],
+    references: [processingJobs.id],
   }),
 }));
 
-export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
+export const processingJobsRelations = relations(processingJobs, ({ one, many }) => ({
+  comments: many(comments),
+  matches: many(commentMatches),
+  placementOverrides: many(placementOverrides),
+  queueTasks: many(jobQueue),
   sourceVideo: one(videos, {
     fields: [processingJobs.sourceVideoId],
     references: [videos.id],
@@ -114,6 +220,32 @@ export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
   }),
 }));
 
+export const commentMatchesRelations = relations(commentMatches, ({ one, many }) => ({
+  job: one(processingJobs, {
+    fields: [commentMatches.jobId],
+    references: [processingJobs.id],
+  }),
+  overrides: many(placementOverrides),
+}));
+
+export const placementOverridesRelations = relations(placementOverrides, ({ one }) => ({
+  job: one(processingJobs, {
+    fields: [placementOverrides.jobId],
+    references: [processingJobs.id],
+  }),
+  match: one(commentMatches, {
+    fields: [placementOverrides.matchId],
+    references: [commentMatches.id],
+  }),
+}));
+
+export const jobQueueRelations = relations(jobQueue, ({ one }) => ({
+  job: one(processingJobs, {
+    fields: [jobQueue.jobId],
+    references: [processingJobs.id],
+  }),
+}));
+
 // Export types for TypeScript
 export type Video = typeof videos.$inferSelect;
 export type NewVideo = typeof videos.$inferInsert;
@@ -121,11 +253,23 @@ export type NewVideo = typeof videos.$inferInsert;
 export type Frame = typeof frames.$inferSelect;
 export type NewFrame = typeof frames.$inferInsert;
 
+export type MediaDetection = typeof mediaDetections.$inferSelect;
+export type NewMediaDetection = typeof mediaDetections.$inferInsert;
+
 export type Comment = typeof comments.$inferSelect;
 export type NewComment = typeof comments.$inferInsert;
 
 export type ProcessingJob = typeof processingJobs.$inferSelect;
 export type NewProcessingJob = typeof processingJobs.$inferInsert;
 
+export type CommentMatchRow = typeof commentMatches.$inferSelect;
+export type NewCommentMatchRow = typeof commentMatches.$inferInsert;
+
+export type PlacementOverride = typeof placementOverrides.$inferSelect;
+export type NewPlacementOverride = typeof placementOverrides.$inferInsert;
+
 export type UserToken = typeof userTokens.$inferSelect;
 export type NewUserToken = typeof userTokens.$inferInsert;
+
+export type JobQueueRow = typeof jobQueue.$inferSelect;
+export type NewJobQueueRow = typeof jobQueue.$inferInsert;
@@ -31,9 +31,18 @@ export interface FrameioComment {
   id: string;
   text: string;
   timestamp?: number;
+  duration?: number; // Ranged comments: frames from the in point (out point = timestamp + duration)
   x?: number;
   y?: number;
   asset_id: string;
+  parent_id?: string;        // Set on replies
+  owner?: { id: string; name?: string; email?: string };
+  created_at?: string;       // ISO 8601
+  completed?: boolean;       // Resolved on the file
+  completed_at?: string;
+  like_count?: number;
+  labels?: string[];
+  replies?: FrameioComment[]; // Thread replies, oldest first (attached by getFileComments)
   [key: string]: unknown;
 }
 
@@ -331,11 +340,35 @@ export class FrameioClient {
   }
 
   // Comment methods (V4 API)
+  /**
+   * Top-level comments on a file, each with its reply thread attached as `replies`
+   */
   async getFileComments(accountId: string, fileId: string): Promise<FrameioComment[]> {
     const response = await this.apiRequest<{ data: FrameioComment[] }>(
-      `/accounts/${accountId}/files/${fileId}/comments`
+      `/accounts/${accountId}/files/${fileId}/comments?include=owner,replies`
     );
-    return response.data || [];
+    return groupCommentThreads(response.data || []);
+  }
+
+  async updateFileComment(accountId: string, commentId: string, commentData: {
+    text?: string;
+    completed?: boolean;
+  }): Promise<FrameioComment> {
+    const response = await this.apiRequest<{ data: FrameioComment }>(`/accounts/${accountId}/comments/${commentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ data: commentData })
+    });
+    return response.data;
+  }
+
+  async createCommentReply(accountId: string, commentId: string, replyData: {
+    text: string;
+  }): Promise<FrameioComment> {
+    const response = await this.apiRequest<{ data: FrameioComment }>(`/accounts/${accountId}/comments/${commentId}/replies`, {
+      method: 'POST',
+      body: JSON.stringify({ data: replyData })
+    });
+    return response.data;
   }
 
   async createVersionStack(accountId: string, folderId: string, data: {
@@ -356,7 +389,10 @@ export class FrameioClient {
   async createComment(accountId: string, fileId: string, commentData: {
     text: string;
     timestamp?: number;
+    duration?: number;
     page?: number;
+    x?: number; // Pin position, normalized to the frame (0-1)
+    y?: number;
     annotation?: unknown;
   }): Promise<FrameioComment> {
     // V4 API: POST /v4/accounts/{accountId}/files/{fileId}/comments
@@ -379,8 +415,9 @@ export class FrameioClient {
     });
   }
 
-  async deleteComment(commentId: string): Promise<void> {
-    await this.apiRequest(`/comments/${commentId}`, {
+  async deleteComment(accountId: string, commentId: string): Promise<void> {
+    // V4 API: DELETE /v4/accounts/{accountId}/comments/{commentId} (replies go with the comment)
+    await this.apiRequest(`/accounts/${accountId}/comments/${commentId}`, {
       method: 'DELETE'
     });
   }
@@ -507,3 +544,24 @@ export class FrameioClient {
     return results;
   }
 }
+
+/**
+ * Normalise comment listings into threads
+ * Replies may arrive nested under their parent (`replies`) or as flat entries
+ * with `parent_id`; either way they end up on the parent, oldest first.
+ */
+function groupCommentThreads(comments: FrameioComment[]): FrameioComment[] {
+  const topLevel = comments.filter(c => !c.parent_id);
+  const byId = new Map(topLevel.map(c => [c.id, { ...c, replies: [...(c.replies ?? [])] }]));
+
+  for (const reply of comments.filter(c => c.parent_id)) {
+    const parent = byId.get(reply.parent_id!);
+    if (parent && !parent.replies.some(r => r.id === reply.id)) {
+      parent.replies.push(reply);
+    }
+  }
+
+  const byCreated = (a: FrameioComment, b: FrameioComment) =>
+    (a.created_at ?? '').localeCompare(b.created_at ?? '');
+  return [...byId.values()].map(c => ({ ...c, replies: c.replies.sort(byCreated) }));
+}
@@ -0,0 +1,213 @@
+import { db, jobQueue, type JobQueueRow } from '@/lib/db';
+import { and, eq, lt, sql } from 'drizzle-orm';
+
+/**
+ * Postgres job queue
+ *
+ * Request handlers enqueue; workers (scripts/worker.ts) claim and run. A claim
+ * takes the oldest runnable task with FOR UPDATE SKIP LOCKED and leases it to
+ * the worker for leaseSeconds; the worker heartbeats to extend the lease while
+ * the task runs. A task whose lease expires (worker crashed, machine restarted)
+ * is claimed again by the next worker, counting as an attempt. Failed attempts
+ * are retried with exponential backoff until maxAttempts.
+ *
+ * Claims are serialized with a transaction-scoped advisory lock so the global
+ * and per-account running counts they check can't be raced past. The Neon HTTP
+ * driver has no interactive transactions, so lock and claim go as one batch.
+ */
+export type QueueTaskKind = 'process' | 'promote' | 'revert';
+
+export type QueueTaskStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface QueueTask {
+  id: string;
+  jobId: string;
+  kind: QueueTaskKind;
+  payload: Record<string, unknown>;
+  accountId: string | null;
+  attempts: number; // Including the current one once claimed
+  maxAttempts: number;
+  lastError: string | null;
+}
+
+export interface QueueLimits {
+  maxRunning: number;    // Tasks running across all workers
+  maxPerAccount: number; // Tasks running for one Frame.io account
+  leaseSeconds: number;  // Lease length; heartbeats must come well inside it
+}
+
+export const DEFAULT_QUEUE_LIMITS: QueueLimits = {
+  maxRunning: 2,
+  maxPerAccount: 1,
+  leaseSeconds: 120,
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 15 * 60;
+const CLAIM_LOCK_KEY = 0x6a6f6271; // Advisory lock id for claims ("jobq")
+
+/**
+ * Queue a task for a job
+ * Returns false when the job already has a queued or running task (nothing is added).
+ */
+export async function enqueueJob(
+  jobId: string,
+  kind: QueueTaskKind,
+  options: { accountId?: string | null; payload?: Record<string, unknown>; maxAttempts?: number } = {}
+): Promise<boolean> {
+  const inserted = await db.insert(jobQueue)
+    .values({
+      jobId,
+      kind,
+      accountId: options.accountId ?? null,
+      payload: options.payload ? JSON.stringify(options.payload) : null,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    })
+    .onConflictDoNothing()
+    .returning({ id: jobQueue.id });
+
+  if (inserted.length === 0) {
+    console.log(`⏭️  Job ${jobId.substring(0, 8)} already has an active ${kind} task`);
+    return false;
+  }
+
+  console.log(`📥 Queued ${kind} task for job ${jobId.substring(0, 8)}`);
+  return true;
+}
+
+/**
+ * Lease the next runnable task to a worker, or null when nothing can run under the limits
+ * Runnable: queued and due, or running with an expired lease and attempts left.
+ */
+export async function claimTask(workerId: string, limits: QueueLimits): Promise<QueueTask | null> {
+  const [, claimed] = await db.batch([
+    db.execute(sql`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`),
+    db.update(jobQueue)
+      .set({
+        status: 'running',
+        attempts: sql`${jobQueue.attempts} + 1`,
+        lockedBy: workerId,
+        lockedUntil: sql`now() + make_interval(secs => ${limits.leaseSeconds})`,
+        heartbeatAt: sql`now()`,
+        updatedAt: sql`now()`,
+      })
+      .where(eq(jobQueue.id, sql`(
+        SELECT q.id FROM job_queue q
+        WHERE (
+            (q.status = 'queued' AND q.run_at <= now())
+            OR (q.status = 'running' AND q.locked_until < now() AND q.attempts < q.max_attempts)
+          )
+          AND (SELECT count(*) FROM job_queue r
+               WHERE r.status = 'running' AND r.locked_until >= now()) < ${limits.maxRunning}
+          AND (SELECT count(*) FROM job_queue r
+               WHERE r.status = 'running' AND r.locked_until >= now()
+                 AND r.account_id IS NOT DISTINCT FROM q.account_id) < ${limits.maxPerAccount}
+        ORDER BY q.run_at, q.created_at
+        LIMIT 1
+        FOR UPDATE OF q SKIP LOCKED
+      )`))
+      .returning(),
+  ]);
+
+  return claimed[0] ? toTask(claimed[0]) : null;
+}
+
+/**
+ * Extend a task's lease
+ * Returns false when the worker no longer holds it (lease expired and another worker took over).
+ */
+export async function heartbeat(taskId: string, workerId: string, leaseSeconds: number): Promise<boolean> {
+  const extended = await db.update(jobQueue)
+    .set({
+      lockedUntil: sql`now() + make_interval(secs => ${leaseSeconds})`,
+      heartbeatAt: sql`now()`,
+    })
+    .where(and(eq(jobQueue.id, taskId), eq(jobQueue.lockedBy, workerId), eq(jobQueue.status, 'running')))
+    .returning({ id: jobQueue.id });
+
+  return extended.length > 0;
+}
+
+/**
+ * Mark a task done and release its lease
+ */
+export async function completeTask(taskId: string, workerId: string): Promise<void> {
+  await db.update(jobQueue)
+    .set({
+      status: 'succeeded',
+      lockedBy: null,
+      lockedUntil: null,
+      updatedAt: sql`now()`,
+      completedAt: sql`now()`,
+    })
+    .where(and(eq(jobQueue.id, taskId), eq(jobQueue.lockedBy, workerId)));
+}
+
+/**
+ * Record a failed attempt: requeue with backoff while attempts remain, otherwise fail the task
+ *
+ * @returns Seconds until the retry, or null when the task has failed for good
+ */
+export async function failTask(task: QueueTask, workerId: string, error: string): Promise<number | null> {
+  const retryIn = task.attempts < task.maxAttempts ? retryDelaySeconds(task.attempts) : null;
+
+  await db.update(jobQueue)
+    .set({
+      status: retryIn === null ? 'failed' : 'queued',
+      runAt: retryIn === null ? undefined : sql`now() + make_interval(secs => ${retryIn})`,
+      lockedBy: null,
+      lockedUntil: null,
+      lastError: error,
+      updatedAt: sql`now()`,
+      completedAt: retryIn === null ? sql`now()` : undefined,
+    })
+    .where(and(eq(jobQueue.id, task.id), eq(jobQueue.lockedBy, workerId)));
+
+  return retryIn;
+}
+
+/**
+ * Fail tasks whose lease expired on their last attempt (claims skip them)
+ * Returns the tasks so the caller can settle their jobs.
+ */
+export async function failAbandonedTasks(): Promise<QueueTask[]> {
+  const abandoned = await db.update(jobQueue)
+    .set({
+      status: 'failed',
+      lockedBy: null,
+      lockedUntil: null,
+      lastError: 'Worker stopped responding (lease expired) on the last attempt',
+      updatedAt: sql`now()`,
+      completedAt: sql`now()`,
+    })
+    .where(and(
+      eq(jobQueue.status, 'running'),
+      lt(jobQueue.lockedUntil, sql`now()`),
+      sql`${jobQueue.attempts} >= ${jobQueue.maxAttempts}`,
+    ))
+    .returning();
+
+  return abandoned.map(toTask);
+}
+
+/**
+ * Exponential backoff with ±25% jitter so failures from one outage don't retry in lockstep
+ */
+function retryDelaySeconds(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_SECONDS * 2 ** (attempt - 1), RETRY_MAX_SECONDS);
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+}
+
+function toTask(row: JobQueueRow): QueueTask {
+  return {
+    id: row.id,
+    jobId: row.jobId,
+    kind: row.kind as QueueTaskKind,
+    payload: row.payload ? JSON.parse(row.payload) : {},
+    accountId: row.accountId,
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    lastError: row.lastError,
+  };
+}
@@ -0,0 +1,234 @@
+import { hostname } from 'os';
+import { db, processingJobs } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { processJob, promoteJob, revertJob } from '@/lib/video/process-job';
+import {
+  claimTask,
+  completeTask,
+  DEFAULT_QUEUE_LIMITS,
+  failAbandonedTasks,
+  failTask,
+  heartbeat,
+  type QueueLimits,
+  type QueueTask,
+  type QueueTaskKind
+} from './job-queue';
+
+/**
+ * Queue worker loop
+ *
+ * Claims tasks up to its own concurrency (the queue enforces the global and
+ * per-account caps across workers), heartbeats each one while it runs and
+ * records the outcome. Job functions report outright failures through their
+ * result's `error`; those attempts are retried, partial transfers are not.
+ * A task whose lease is lost is aborted (no further Frame.io writes) and left
+ * to the worker that claims it next. On abort the worker stops claiming and
+ * waits for its running tasks.
+ */
+export interface WorkerOptions {
+  workerId?: string;        // Lease owner name (default: host:pid)
+  concurrency?: number;     // Tasks this process runs at once (default: 1)
+  pollIntervalMs?: number;  // Wait between claims when idle (default: 5s)
+  limits?: Partial<QueueLimits>;
+  once?: boolean;           // Exit once nothing is runnable instead of polling
+  signal?: AbortSignal;     // Graceful shutdown
+}
+
+interface TaskHandler {
+  title: string;
+  run(task: QueueTask, signal: AbortSignal): Promise<{ error?: string }>;
+  waitingStatus: string;                     // Job status while a retry is pending
+  abandonedStatus(task: QueueTask): string;  // Job status when the last attempt's worker disappeared
+}
+
+interface RevertPayload {
+  requestedBy: { id: string; name?: string };
+  previousStatus: string;
+}
+
+const HANDLERS: Record<QueueTaskKind, TaskHandler> = {
+  process: {
+    title: 'Processing',
+    run: (task, signal) => processJob(task.jobId, signal),
+    waitingStatus: 'pending',
+    abandonedStatus: () => 'failed',
+  },
+  promote: {
+    title: 'Promotion',
+    run: (task, signal) => promoteJob(task.jobId, signal),
+    waitingStatus: 'processing',
+    abandonedStatus: () => 'dry_run', // Stored matches are untouched, so it can be promoted again
+  },
+  revert: {
+    title: 'Revert',
+    run: (task, signal) => {
+      const { requestedBy, previousStatus } = task.payload as unknown as RevertPayload;
+      return revertJob(task.jobId, requestedBy, previousStatus, signal);
+    },
+    waitingStatus: 'reverting',
+    abandonedStatus: task => (task.payload as unknown as RevertPayload).previousStatus,
+  },
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const LEASE_SAFETY_MARGIN = 0.25; // Stop this share of a lease before it would run out
+
+/**
+ * Run queued tasks until the signal aborts (or, with `once`, until the queue has nothing runnable)
+ */
+export async function runWorker(options: WorkerOptions = {}): Promise<void> {
+  const workerId = options.workerId ?? `${hostname()}:${process.pid}`;
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const limits: QueueLimits = {
+    maxRunning: options.limits?.maxRunning ?? DEFAULT_QUEUE_LIMITS.maxRunning,
+    maxPerAccount: options.limits?.maxPerAccount ?? DEFAULT_QUEUE_LIMITS.maxPerAccount,
+    leaseSeconds: options.limits?.leaseSeconds ?? DEFAULT_QUEUE_LIMITS.leaseSeconds,
+  };
+  const running = new Set<Promise<void>>();
+
+  console.log(
+    `👷 Worker ${workerId} started: ${concurrency} slot(s), ` +
+    `queue caps ${limits.maxRunning} running / ${limits.maxPerAccount} per account, ${limits.leaseSeconds}s lease`
+  );
+
+  while (!options.signal?.aborted) {
+    try {
+      for (const task of await failAbandonedTasks()) {
+        await settleAbandoned(task);
+      }
+
+      while (running.size < concurrency && !options.signal?.aborted) {
+        const task = await claimTask(workerId, limits);
+        if (!task) break;
+        const run: Promise<void> = runTask(task, workerId, limits).finally(() => running.delete(run));
+        running.add(run);
+      }
+    } catch (error) {
+      console.error('❌ Queue poll failed:', error);
+    }
+
+    if (options.once && running.size === 0) break;
+    await Promise.race([...running, sleep(pollIntervalMs, options.signal)]);
+  }
+
+  if (running.size > 0) {
+    console.log(`⏳ Waiting for ${running.size} running task(s) before stopping...`);
+    await Promise.all(running);
+  }
+  console.log(`👋 Worker ${workerId} stopped`);
+}
+
+/**
+ * Run one claimed task under heartbeats and record how it went
+ */
+async function runTask(task: QueueTask, workerId: string, limits: QueueLimits): Promise<void> {
+  const handler = HANDLERS[task.kind];
+  const label = `${task.kind} ${task.jobId.substring(0, 8)} (attempt ${task.attempts}/${task.maxAttempts})`;
+  console.log(`▶️  Running ${label}`);
+
+  // The lease counts as lost when the queue says so, when a heartbeat fails (we can no
+  // longer tell whether we hold it) or when none has succeeded for nearly a lease length
+  const lease = new AbortController();
+  const loseLease = (reason: string) => {
+    if (lease.signal.aborted) return;
+    console.warn(`⚠️  Lost the lease on ${label} (${reason}) - stopping it, another worker may run it again`);
+    lease.abort(new Error(`Lost the task lease: ${reason}`));
+  };
+  const leaseMs = limits.leaseSeconds * 1000;
+  let watchdog: NodeJS.Timeout | undefined;
+  const armWatchdog = () => {
+    clearTimeout(watchdog);
+    watchdog = setTimeout(
+      () => loseLease('no successful heartbeat in time'),
+      leaseMs * (1 - LEASE_SAFETY_MARGIN)
+    );
+  };
+  armWatchdog(); // The claim itself started the lease
+  const beat = setInterval(() => {
+    heartbeat(task.id, workerId, limits.leaseSeconds)
+      .then(held => {
+        if (!held) {
+          loseLease('another worker took it over');
+        } else if (!lease.signal.aborted) {
+          armWatchdog();
+        }
+      })
+      .catch(error => {
+        console.warn(`⚠️  Heartbeat failed for ${label}:`, error);
+        loseLease('heartbeat failed');
+      });
+  }, leaseMs / 3);
+
+  let error: string | undefined;
+  try {
+    error = (await handler.run(task, lease.signal)).error;
+  } catch (thrown) {
+    error = thrown instanceof Error ? thrown.message : String(thrown);
+  } finally {
+    clearInterval(beat);
+    clearTimeout(watchdog);
+  }
+
+  // The task is no longer ours to complete or fail
+  if (lease.signal.aborted) {
+    console.warn(`⛔ Dropped ${label} after losing its lease${error ? `: ${error}` : ''}`);
+    return;
+  }
+
+  try {
+    if (!error) {
+      await completeTask(task.id, workerId);
+      console.log(`✅ Finished ${label}`);
+      return;
+    }
+
+    const retryIn = await failTask(task, workerId, error);
+    if (retryIn === null) {
+      // The job function has already put the job in its failed state
+      console.error(`❌ ${label} failed for good: ${error}`);
+      return;
+    }
+
+    console.warn(`🔁 ${label} failed, retrying in ${retryIn}s: ${error}`);
+    await updateJobStatus(
+      task.jobId,
+      handler.waitingStatus,
+      `⏳ Attempt ${task.attempts}/${task.maxAttempts} failed (${error}) - retrying in ${retryIn}s`
+    );
+  } catch (recordError) {
+    // The lease runs out on its own and the task is claimed again
+    console.error(`❌ Could not record the outcome of ${label}:`, recordError);
+  }
+}
+
+/**
+ * Put a job whose worker vanished on its last attempt back in a state the app can act on
+ */
+async function settleAbandoned(task: QueueTask): Promise<void> {
+  const handler = HANDLERS[task.kind];
+  console.error(`❌ ${task.kind} ${task.jobId.substring(0, 8)} abandoned after ${task.attempts} attempts (worker stopped responding)`);
+  await updateJobStatus(
+    task.jobId,
+    handler.abandonedStatus(task),
+    `❌ ${handler.title} stopped responding after ${task.attempts} attempts`
+  );
+}
+
+async function updateJobStatus(jobId: string, status: string, message: string): Promise<void> {
+  await db.update(processingJobs)
+    .set({ status, message })
+    .where(eq(processingJobs.id, jobId));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
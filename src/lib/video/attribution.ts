@@ -0,0 +1,180 @@
+import type { FrameioComment } from '@/lib/frameio-client';
+
+/**
+ * Attribution for transferred comments
+ *
+ * The API creates every comment as the user who ran the transfer, so the
+ * original author, date and review state are rendered into the text instead:
+ *   prefix: "[Jane Doe · 2025-03-04 14:22 UTC · ✅ Resolved] Fix the flare"
+ *   suffix: "Fix the flare\n\n— Jane Doe · 2025-03-04 14:22 UTC · ✅ Resolved"
+ *
+ * Fields render in the configured order; fields without a value are dropped.
+ */
+export type AttributionField = 'author' | 'date' | 'status' | 'likes' | 'labels';
+
+export const ATTRIBUTION_FIELDS: AttributionField[] = ['author', 'date', 'status', 'likes', 'labels'];
+
+export interface AttributionOptions {
+  enabled: boolean;
+  position: 'prefix' | 'suffix';
+  fields: AttributionField[];
+}
+
+export const DEFAULT_ATTRIBUTION: AttributionOptions = {
+  enabled: true,
+  position: 'suffix',
+  fields: ['author', 'date', 'status', 'likes', 'labels'],
+};
+
+/**
+ * What to do with comments already resolved (completed) on the source
+ * - transfer: post them like any other comment (state shown in the attribution)
+ * - skip: leave them behind
+ * - complete: post them and mark them completed on the target
+ */
+export type ResolvedCommentsMode = 'transfer' | 'skip' | 'complete';
+
+export const RESOLVED_COMMENTS_MODES: ResolvedCommentsMode[] = ['transfer', 'skip', 'complete'];
+
+/**
+ * Parse attribution settings from job metadata, e.g. { position: 'prefix', fields: ['author', 'date'] }
+ * Missing or invalid values fall back to the defaults; unknown fields are ignored.
+ */
+export function parseAttributionOptions(value: unknown): AttributionOptions {
+  if (!value || typeof value !== 'object') return DEFAULT_ATTRIBUTION;
+
+  const { enabled, position, fields } = value as Record<string, unknown>;
+  const validFields = Array.isArray(fields)
+    ? fields.filter((f): f is AttributionField => ATTRIBUTION_FIELDS.includes(f as AttributionField))
+    : DEFAULT_ATTRIBUTION.fields;
+
+  return {
+    enabled: typeof enabled === 'boolean' ? enabled : DEFAULT_ATTRIBUTION.enabled,
+    position: position === 'prefix' || position === 'suffix' ? position : DEFAULT_ATTRIBUTION.position,
+    fields: validFields,
+  };
+}
+
+/**
+ * Parse the resolved-comments mode from job metadata (unknown values fall back to transfer)
+ */
+export function parseResolvedCommentsMode(value: unknown): ResolvedCommentsMode {
+  return RESOLVED_COMMENTS_MODES.includes(value as ResolvedCommentsMode) ? value as ResolvedCommentsMode : 'transfer';
+}
+
+export function isResolved(comment: FrameioComment): boolean {
+  return comment.completed === true || Boolean(comment.completed_at);
+}
+
+/**
+ * Wrap comment text with the attribution block
+ * Returns the text unchanged when attribution is disabled or no field has a value.
+ */
+export function withAttribution(text: string, comment: FrameioComment, options: AttributionOptions): string {
+  if (!options.enabled) return text;
+
+  const parts = options.fields
+    .map(field => renderField(field, comment))
+    .filter((part): part is string => Boolean(part));
+  if (parts.length === 0) return text;
+
+  const block = parts.join(' · ');
+  return options.position === 'prefix'
+    ? `[${block}] ${text}`.trim()
+    : `${text}\n\n— ${block}`.trim();
+}
+
+// Rendered markup, as produced by CommentTransfer and withAttribution
+const TRANSFER_PREFIX = /^\[Transferred [^\]]*\]\s*/;
+const ATTRIBUTION_PREFIX = /^\[[^\]]*\d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC[^\]]*\]\s*/;
+// A reply with no text (attachments only) renders as the bare block
+const ATTRIBUTION_SUFFIX = /(?:\n\n— [^\n]*|^— [^\n]*\d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC[^\n]*)$/;
+const RENDERED_DATE = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC$/;
+
+/**
+ * Original note text from a comment that may itself be a transfer
+ * Strips "[Transferred ✓ ...]" prefixes (repeated transfers stack them) and
+ * attribution blocks in either position, so copies of a note across versions compare equal.
+ */
+export function stripTransferMarkup(text: string): string {
+  let stripped = text.trim();
+  let previous: string;
+  do {
+    previous = stripped;
+    stripped = stripped
+      .replace(TRANSFER_PREFIX, '')
+      .replace(ATTRIBUTION_PREFIX, '')
+      .replace(ATTRIBUTION_SUFFIX, '')
+      .trim();
+  } while (stripped !== previous);
+  return stripped;
+}
+
+/**
+ * Who wrote a comment and when, as rendered in attribution blocks
+ * A transferred copy is posted by whoever ran the transfer, so its innermost
+ * attribution block (repeated transfers wrap the text again) names the
+ * original; a comment without one speaks for itself.
+ */
+export function originalAuthorship(comment: FrameioComment): { author: string | null; date: string | null } {
+  let text = (comment.text ?? '').trim();
+  let block: string | null = null;
+  for (;;) {
+    text = text.replace(TRANSFER_PREFIX, '').trim();
+    const prefix = text.match(ATTRIBUTION_PREFIX);
+    const suffix = prefix ? null : text.match(ATTRIBUTION_SUFFIX);
+    if (prefix) {
+      block = prefix[0].trim().slice(1, -1);
+      text = text.slice(prefix[0].length);
+    } else if (suffix) {
+      block = suffix[0].replace(/^(\n\n)?— /, '');
+      text = text.slice(0, suffix.index);
+    } else {
+      break;
+    }
+  }
+
+  if (block === null) {
+    return { author: renderField('author', comment), date: formatDate(comment.created_at) };
+  }
+  const parts = block.split(' · ');
+  const date = parts.find(part => RENDERED_DATE.test(part)) ?? null;
+  const author = parts.find(part => part !== date && !/^(✅|👍|#)/.test(part)) ?? null;
+  return { author, date };
+}
+
+/**
+ * Comparison key for a note: original text, whitespace collapsed, lower-cased
+ */
+export function noteKey(text: string | undefined): string {
+  return stripTransferMarkup(text ?? '').replace(/\s+/g, ' ').toLowerCase();
+}
+
+function renderField(field: AttributionField, comment: FrameioComment): string | null {
+  switch (field) {
+    case 'author':
+      return comment.owner?.name || comment.owner?.email || null;
+    case 'date':
+      return formatDate(comment.created_at);
+    case 'status':
+      return isResolved(comment) ? '✅ Resolved' : null;
+    case 'likes': {
+      const likes = comment.like_count ?? 0;
+      return likes > 0 ? `👍 ${likes}` : null;
+    }
+    case 'labels':
+      return comment.labels && comment.labels.length > 0
+        ? comment.labels.map(label => `#${label}`).join(' ')
+        : null;
+  }
+}
+
+/**
+ * "2025-03-04 14:22 UTC" (null for missing or unparseable dates)
+ */
+function formatDate(value?: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
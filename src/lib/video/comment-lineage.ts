@@ -0,0 +1,213 @@
+import { db, comments, videos, type Comment, type NewComment, type Video } from '@/lib/db';
+import { eq, inArray, type SQL } from 'drizzle-orm';
+import type { TransferDetail } from './comment-transfer';
+import { stripTransferMarkup } from './attribution';
+
+/**
+ * Comment lineage across versions
+ *
+ * Every transferred comment gets a row in `comments` pointing at the comment
+ * it was copied from (source_comment_id), the job that copied it and both
+ * versions. A note carried v1 → v2 → v3 forms a chain of these rows, so from
+ * any copy it can be walked back to where it was written and then forward to
+ * every version it has reached since (including branches, e.g. v1 → v2 and
+ * later v1 → v4 directly).
+ */
+export interface LineageFile {
+  fileId: string;
+  fileName: string;
+}
+
+export interface LineageHop {
+  commentId: string;                // Comment created on the target by the transfer
+  sourceCommentId: string;          // Comment it was copied from
+  jobId: string | null;
+  sourceFile: LineageFile | null;
+  targetFile: LineageFile | null;
+  originalTimestamp: number | null; // Seconds on the source version
+  mappedTimestamp: number;          // Seconds on the target version
+  confidence: number | null;        // Match similarity (0-1)
+  text: string;                     // Note text without transfer markup
+  author: string | null;
+  createdAt: Date | null;
+}
+
+export interface CommentTrace {
+  commentId: string;       // Comment the trace was requested for
+  originCommentId: string; // Where the note was written
+  hops: LineageHop[];      // Transfers from the origin outwards, oldest generation first
+}
+
+const MAX_HOPS = 200; // Guards against cycles in hand-edited data
+
+/**
+ * Record lineage rows for every comment created by a job
+ * Re-recording the same created comment is a no-op.
+ *
+ * @param fileNames - Display names by Frame.io file id (falls back to the id)
+ * @returns Number of rows written
+ */
+export async function recordLineage(
+  job: { id: string; sourceFileId: string; targetFileId: string },
+  details: TransferDetail[],
+  fileNames: Record<string, string | undefined> = {}
+): Promise<number> {
+  const created = details.filter(d => d.transferred && d.newCommentId);
+  if (created.length === 0) return 0;
+
+  const videoIds = new Map<string, string>();
+  const videoId = async (fileId: string) => {
+    if (!videoIds.has(fileId)) {
+      videoIds.set(fileId, await ensureVideo(fileId, fileNames[fileId] || fileId));
+    }
+    return videoIds.get(fileId)!;
+  };
+
+  const rows: NewComment[] = [];
+  for (const detail of created) {
+    const { sourceComment } = detail;
+    rows.push({
+      frameioCommentId: detail.newCommentId!,
+      videoId: await videoId(job.targetFileId),
+      timestampSeconds: (detail.targetTimestamp ?? 0).toFixed(3),
+      text: stripTransferMarkup(sourceComment.text ?? ''),
+      author: sourceComment.owner?.name || sourceComment.owner?.email || null,
+      originalTimestamp: detail.sourceTimestamp?.toFixed(3),
+      confidenceScore: detail.similarity?.toFixed(2),
+      sourceCommentId: sourceComment.id,
+      sourceVideoId: await videoId(detail.sourceFileId ?? job.sourceFileId),
+      jobId: job.id,
+    });
+  }
+
+  const inserted = await db.insert(comments)
+    .values(rows)
+    .onConflictDoNothing({ target: comments.frameioCommentId })
+    .returning({ id: comments.id });
+
+  console.log(`🧬 Lineage: recorded ${inserted.length} transferred comments`);
+  return inserted.length;
+}
+
+/**
+ * Trace a note across every version it has travelled through
+ *
+ * Only transfers made by the user's own jobs are followed, so a trace never
+ * exposes notes, files or jobs from another user's transfers.
+ *
+ * @param commentId - Frame.io id of any copy of the note (or the original)
+ * @param userId - Frame.io user whose jobs the trace may include
+ * @returns null when no transfer of the note by this user was ever recorded
+ */
+export async function traceComment(commentId: string, userId: string): Promise<CommentTrace | null> {
+  // Walk back to where the note was written
+  let originCommentId = commentId;
+  const visited = new Set<string>();
+  while (!visited.has(originCommentId) && visited.size < MAX_HOPS) {
+    visited.add(originCommentId);
+    const [hop] = await loadHops(eq(comments.frameioCommentId, originCommentId), userId);
+    if (!hop) break;
+    originCommentId = hop.sourceCommentId;
+  }
+
+  // Then forward through every copy, one generation at a time
+  const hops: LineageHop[] = [];
+  const seen = new Set<string>([originCommentId]);
+  let frontier = [originCommentId];
+  while (frontier.length > 0 && hops.length < MAX_HOPS) {
+    const generation = (await loadHops(inArray(comments.sourceCommentId, frontier), userId))
+      .filter(hop => !seen.has(hop.commentId))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+    generation.forEach(hop => seen.add(hop.commentId));
+    hops.push(...generation);
+    frontier = generation.map(hop => hop.commentId);
+  }
+
+  if (hops.length === 0) return null;
+  return { commentId, originCommentId, hops };
+}
+
+/**
+ * Drop lineage for comments that no longer exist (deleted by a revert)
+ */
+export async function forgetComments(commentIds: string[]): Promise<void> {
+  if (commentIds.length === 0) return;
+  await db.delete(comments).where(inArray(comments.frameioCommentId, commentIds));
+}
+
+/**
+ * Recorded ancestors of each comment, nearest first (comments without lineage map to [])
+ */
+export async function commentAncestors(commentIds: string[]): Promise<Map<string, string[]>> {
+  // Load parent links one generation at a time
+  const parents = new Map<string, string>();
+  let frontier = [...new Set(commentIds)];
+  for (let depth = 0; frontier.length > 0 && depth < MAX_HOPS; depth++) {
+    const rows = await db.select({ commentId: comments.frameioCommentId, sourceCommentId: comments.sourceCommentId })
+      .from(comments)
+      .where(inArray(comments.frameioCommentId, frontier));
+    frontier = [];
+    for (const { commentId, sourceCommentId } of rows) {
+      if (!sourceCommentId || parents.has(commentId)) continue;
+      parents.set(commentId, sourceCommentId);
+      if (!parents.has(sourceCommentId)) frontier.push(sourceCommentId);
+    }
+  }
+
+  const ancestors = new Map<string, string[]>();
+  for (const commentId of commentIds) {
+    const chain: string[] = [];
+    const seen = new Set([commentId]);
+    for (let parent = parents.get(commentId); parent && !seen.has(parent); parent = parents.get(parent)) {
+      chain.push(parent);
+      seen.add(parent);
+    }
+    ancestors.set(commentId, chain);
+  }
+  return ancestors;
+}
+
+/**
+ * Videos row for a Frame.io file (created on first use, name kept current)
+ */
+export async function ensureVideo(frameioId: string, filename: string): Promise<string> {
+  const [video] = await db.insert(videos)
+    .values({ frameioId, filename })
+    .onConflictDoUpdate({ target: videos.frameioId, set: { filename, updatedAt: new Date() } })
+    .returning({ id: videos.id });
+  return video.id;
+}
+
+/**
+ * Lineage rows matching `where` that were written by one of the user's jobs
+ */
+async function loadHops(where: SQL, userId: string): Promise<LineageHop[]> {
+  const rows = await db.query.comments.findMany({
+    where,
+    with: { video: true, sourceVideo: true, job: { columns: { userId: true } } },
+  });
+  return rows
+    .filter(row => row.job?.userId === userId)
+    .filter((row): row is typeof row & { sourceCommentId: string } => Boolean(row.sourceCommentId))
+    .map(toHop);
+}
+
+function toHop(row: Comment & { sourceCommentId: string; video: Video | null; sourceVideo: Video | null }): LineageHop {
+  return {
+    commentId: row.frameioCommentId,
+    sourceCommentId: row.sourceCommentId,
+    jobId: row.jobId,
+    sourceFile: toFile(row.sourceVideo),
+    targetFile: toFile(row.video),
+    originalTimestamp: row.originalTimestamp !== null ? parseFloat(row.originalTimestamp) : null,
+    mappedTimestamp: parseFloat(row.timestampSeconds),
+    confidence: row.confidenceScore !== null ? parseFloat(row.confidenceScore) : null,
+    text: row.text,
+    author: row.author,
+    createdAt: row.createdAt,
+  };
+}
+
+function toFile(video: Video | null): LineageFile | null {
+  return video ? { fileId: video.frameioId, fileName: video.filename } : null;
+}
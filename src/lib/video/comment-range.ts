@@ -0,0 +1,152 @@
+import { mapFrameCount, type RetimeModel } from './retime';
+import type { VersionDiff } from './version-diff';
+
+/**
+ * How a ranged comment (in/out point) survived the edit
+ * - intact: both ends found, length matches the source at the local rate
+ * - split: both ends found, but an edit inside the range changed its length
+ * - partly_removed: one end was cut from the target, the surviving part is kept
+ * - reversed: out point lands before the in point (material re-ordered)
+ */
+export type RangeOutcome = 'intact' | 'split' | 'partly_removed' | 'reversed';
+
+export interface CommentRange {
+  sourceInFrame: number;
+  sourceOutFrame: number;
+  targetInFrame: number;   // Target frame numbering
+  targetOutFrame: number;  // Equal to targetInFrame when only a point could be placed
+  outcome: RangeOutcome;
+  detail: string;          // Human-readable explanation for TransferDetail.reason
+}
+
+interface AlignedPiece {
+  sourceStart: number;
+  sourceEnd: number;
+  targetStart: number;
+  targetEnd: number;
+}
+
+const LENGTH_TOLERANCE = 0.1; // Relative duration change still considered intact
+const MIN_LENGTH_TOLERANCE_FRAMES = 2;
+
+/**
+ * Recreate a source comment range on the target from independently matched endpoints
+ *
+ * Endpoints decide where the range lands; the version diff (when available)
+ * explains why it changed and bounds the surviving part when one end is gone.
+ *
+ * @param inTarget - Matched target frame for the in point (null = not found)
+ * @param outTarget - Matched target frame for the out point (null = not found)
+ */
+export function resolveCommentRange(params: {
+  sourceInFrame: number;
+  sourceOutFrame: number;
+  inTarget: number | null;
+  outTarget: number | null;
+  retime: RetimeModel;
+  diff: VersionDiff | null;
+}): CommentRange | null {
+  const { sourceInFrame, sourceOutFrame, inTarget, outTarget, retime, diff } = params;
+  if (inTarget === null && outTarget === null) return null;
+
+  const sourceLength = sourceOutFrame - sourceInFrame;
+  const expectedLength = mapFrameCount(retime, sourceInFrame, sourceLength);
+  const pieces = diff ? alignedPieces(diff, sourceInFrame, sourceOutFrame) : [];
+  const removedFrames = diff ? removedWithin(diff, sourceInFrame, sourceOutFrame) : 0;
+  const base = { sourceInFrame, sourceOutFrame };
+
+  if (inTarget !== null && outTarget !== null) {
+    if (outTarget < inTarget) {
+      return {
+        ...base,
+        targetInFrame: inTarget,
+        targetOutFrame: inTarget,
+        outcome: 'reversed',
+        detail: `Range reversed on target (out point #${outTarget} lands before in point #${inTarget}); placed at in point only`,
+      };
+    }
+
+    const observedLength = outTarget - inTarget;
+    const tolerance = Math.max(MIN_LENGTH_TOLERANCE_FRAMES, Math.round(expectedLength * LENGTH_TOLERANCE));
+    if (Math.abs(observedLength - expectedLength) <= tolerance && pieces.length <= 1 && removedFrames === 0) {
+      return {
+        ...base,
+        targetInFrame: inTarget,
+        targetOutFrame: outTarget,
+        outcome: 'intact',
+        detail: `Range intact (${observedLength} frames)`,
+      };
+    }
+
+    const editNote = pieces.length > 1
+      ? `Range split by edit into ${pieces.length} pieces`
+      : 'Range length changed by an edit inside it';
+    const removedNote = removedFrames > 0 ? `, ${removedFrames} source frames removed` : '';
+    return {
+      ...base,
+      targetInFrame: inTarget,
+      targetOutFrame: outTarget,
+      outcome: 'split',
+      detail: `${editNote}${removedNote} (${expectedLength} → ${observedLength} frames); spans both ends on target`,
+    };
+  }
+
+  // One endpoint is gone: keep the part of the range that shares the surviving end's shot
+  if (inTarget !== null) {
+    const piece = pieces.find(p => p.sourceStart <= sourceInFrame && sourceInFrame <= p.sourceEnd);
+    const survivingEnd = piece ? Math.min(piece.sourceEnd, sourceOutFrame) : sourceInFrame;
+    const targetOut = inTarget + mapFrameCount(retime, sourceInFrame, survivingEnd - sourceInFrame);
+    return {
+      ...base,
+      targetInFrame: inTarget,
+      targetOutFrame: targetOut,
+      outcome: 'partly_removed',
+      detail: piece
+        ? `Out point removed from target; kept ${survivingEnd - sourceInFrame + 1}/${sourceLength + 1} source frames up to the edit`
+        : 'Out point not found on target; placed at in point only',
+    };
+  }
+
+  const piece = pieces.find(p => p.sourceStart <= sourceOutFrame && sourceOutFrame <= p.sourceEnd);
+  const survivingStart = piece ? Math.max(piece.sourceStart, sourceInFrame) : sourceOutFrame;
+  const targetIn = Math.max(0, outTarget! - mapFrameCount(retime, survivingStart, sourceOutFrame - survivingStart));
+  return {
+    ...base,
+    targetInFrame: targetIn,
+    targetOutFrame: outTarget!,
+    outcome: 'partly_removed',
+    detail: piece
+      ? `In point removed from target; kept ${sourceOutFrame - survivingStart + 1}/${sourceLength + 1} source frames from the edit`
+      : 'In point not found on target; placed at out point only',
+  };
+}
+
+/**
+ * Kept/moved diff segments overlapping the source range, in source order
+ */
+function alignedPieces(diff: VersionDiff, sourceIn: number, sourceOut: number): AlignedPiece[] {
+  return diff.segments
+    .filter(s => (s.type === 'kept' || s.type === 'moved') && s.source && s.target)
+    .filter(s => s.source!.startFrame <= sourceOut && s.source!.endFrame >= sourceIn)
+    .map(s => ({
+      sourceStart: s.source!.startFrame,
+      sourceEnd: s.source!.endFrame,
+      targetStart: s.target!.startFrame,
+      targetEnd: s.target!.endFrame,
+    }))
+    .sort((a, b) => a.sourceStart - b.sourceStart);
+}
+
+/**
+ * Source frames inside the range that the diff marks as removed or trimmed
+ */
+function removedWithin(diff: VersionDiff, sourceIn: number, sourceOut: number): number {
+  let frames = 0;
+  for (const segment of diff.segments) {
+    if (!segment.source || segment.type === 'kept' || segment.type === 'moved') continue;
+    const start = Math.max(segment.source.startFrame, sourceIn);
+    const end = Math.min(segment.source.endFrame, sourceOut);
+    if (end >= start) frames += end - start + 1;
+  }
+  return frames;
+}
@@ -1,29 +1,94 @@
 import { FrameioClient, FrameioComment } from '@/lib/frameio-client';
 import { CommentMatch } from './frame-processor';
+import {
+  DEFAULT_ATTRIBUTION,
+  isResolved,
+  noteKey,
+  withAttribution,
+  type AttributionOptions,
+  type ResolvedCommentsMode
+} from './attribution';
+import {
+  applyTransform,
+  IDENTITY_TRANSFORM,
+  isIdentityTransform,
+  isInFrame,
+  transformAnnotation,
+  type Point
+} from './geometry';
+import { commentAncestors } from './comment-lineage';
 
 export interface TransferResult {
   success: boolean;
   transferred: number;
   failed: number;
   skipped: number;
+  updated: number; // Existing target copies refreshed instead of posted again
   details: TransferDetail[];
 }
 
 export interface TransferDetail {
   sourceComment: FrameioComment;
   targetTimestamp?: number;
+  targetFrameNumber?: number; // Target's own frame numbering (what was sent, before the n-1 fix)
+  targetDuration?: number;    // Ranged comments: frames covered on the target
+  pinOutOfFrame?: boolean;    // Pinned comments: the remapped position fell outside the target frame
+  regionChangeScore?: number; // Pinned/annotated comments: 0 = area unchanged, 1 = unrelated content
+  regionChanged?: boolean;    // The area the note points at was changed in the target
+  repliesTransferred?: number; // Thread replies recreated under the new comment
+  repliesFailed?: number;
+  completed?: boolean;         // Pre-completed on the target (resolved on the source)
+  originVersion?: number;      // Multi-version merges: stack position of the version the note came from
+  sourceFileId?: string;       // File the source comment was read from
+  sourceTimestamp?: number;    // Source comment position in seconds
+  duplicateOf?: string;        // Existing target comment recognised as this note (not posted again)
+  updated?: boolean;           // The existing copy's text was refreshed
   transferred: boolean;
   reason?: string;
   similarity?: number;
   newCommentId?: string;
 }
 
+export interface DeleteResult {
+  deleted: string[];      // Comment ids removed (including ones already gone)
+  alreadyDeleted: number; // Removed by hand in Frame.io before the revert
+  failed: Array<{ commentId: string; error: string }>;
+}
+
 export interface TransferOptions {
   minSimilarity?: number; // Minimum similarity threshold (default: 0.7 = 70%)
-  transferAnnotations?: boolean; // Whether to transfer drawing annotations
-  addPrefix?: boolean; // Add "[Transferred]" prefix to comments
+  transferAnnotations?: boolean; // Whether to transfer drawing annotations (remapped to the target framing)
+  addPrefix?: boolean; // Add "[Transferred]" prefix to comments (marks notes whose subject area changed)
+  attribution?: AttributionOptions; // Original author/date/state block on comments and replies
+  resolvedComments?: ResolvedCommentsMode; // Comments resolved on the source: transfer, skip or pre-complete (default: transfer)
+  duplicates?: DuplicateMode; // Notes already on the target: skip or refresh the existing copy (default: skip)
+  signal?: AbortSignal; // Stop posting when aborted (the result covers what was done so far)
 }
 
+/**
+ * What to do when a note is already on the target (a re-run, or reached through another version)
+ * - skip: leave the existing copy as it is
+ * - update: rewrite its text (prefix, attribution) and completion state; replies are not re-posted
+ */
+export type DuplicateMode = 'skip' | 'update';
+
+/**
+ * Parse the duplicate mode from job metadata (unknown values fall back to skip)
+ */
+export function parseDuplicateMode(value: unknown): DuplicateMode {
+  return value === 'update' ? 'update' : 'skip';
+}
+
+interface ExistingComments {
+  comments: FrameioComment[];        // Top-level comments already on the target
+  ancestors: Map<string, string[]>;  // Recorded lineage of target and source comments
+}
+
+const BATCH_SIZE = 10; // Frame.io rate limit: 10 calls per minute
+const RATE_LIMIT_DELAY_MS = 60000; // Wait 60 seconds between batches
+const DUPLICATE_WINDOW_SECONDS = 2; // Same text this close to the placement counts as the same note
+const FALLBACK_FPS = 25;            // Frame rate assumed for matches placed at 0s
+
 /**
  * Transfer comments from matched source frames to target video
  */
@@ -35,8 +100,9 @@ export class CommentTransfer {
   }
 
   /**
-   * Transfer matched comments to target file in batches to respect rate limits
-   * Frame.io rate limit: 10 calls per minute
+   * Transfer matched comments (and their reply threads) to target file in batches to respect rate limits
+   * Frame.io rate limit: 10 calls per minute - batches are sized in API calls, so a comment
+   * with replies counts once for itself plus once per reply.
    */
   async transferComments(
     accountId: string,
@@ -46,30 +112,40 @@ export class CommentTransfer {
   ): Promise<TransferResult> {
     const {
       minSimilarity = 0.8, // 80% similarity threshold (skip low confidence < 80%)
-      // transferAnnotations = true, // TODO: Implement annotation transfer
+      transferAnnotations = true,
       addPrefix = true,
+      attribution = DEFAULT_ATTRIBUTION,
+      resolvedComments = 'transfer',
+      duplicates = 'skip',
+      signal,
     } = options;
 
-    const BATCH_SIZE = 10; // Frame.io rate limit: 10 calls per minute
-    const RATE_LIMIT_DELAY_MS = 60000; // Wait 60 seconds between batches
-    const totalBatches = Math.ceil(matches.length / BATCH_SIZE);
+    // Earlier transfers already on the target are recognised instead of posted again
+    const existing = await this.loadExistingComments(accountId, targetFileId, matches);
+    const claimed = new Set<string>();
 
-    console.log(`\n🚀 Comment Transfer: ${matches.length} comments, ${totalBatches} batches, ~${totalBatches} min\n`);
+    const batches = planBatches(matches, resolvedComments);
+    const totalBatches = batches.length;
+    const replyCount = matches.reduce((sum, m) => sum + (m.sourceComment.replies?.length ?? 0), 0);
+
+    console.log(`\n🚀 Comment Transfer: ${matches.length} comments + ${replyCount} replies, ${totalBatches} batches, ~${totalBatches} min\n`);
 
     const details: TransferDetail[] = [];
     let transferred = 0;
     let failed = 0;
     let skipped = 0;
+    let updated = 0;
 
-    // Process in batches of 10
+    // Process in batches of up to 10 API calls
+    let batchStart = 0;
     for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-      const batchStart = batchIndex * BATCH_SIZE;
-      const batchEnd = Math.min(batchStart + BATCH_SIZE, matches.length);
-      const batch = matches.slice(batchStart, batchEnd);
+      const batch = batches[batchIndex];
+      const batchEnd = batchStart + batch.length;
 
       console.log(`\n📦 Batch ${batchIndex + 1}/${totalBatches}: Processing ${batch.length} comments (${batchStart + 1}-${batchEnd})...`);
 
       for (const match of batch) {
+      if (signal?.aborted) break;
       const { sourceComment, targetTimestamp, similarity, confidence } = match;
 
       // Check similarity threshold
@@ -90,6 +166,19 @@ export class CommentTransfer {
         continue;
       }
 
+      const resolved = isResolved(sourceComment);
+      if (resolved && resolvedComments === 'skip') {
+        console.log(`⏭️  Skipping comment (resolved on source): "${sourceComment.text?.substring(0, 50)}..."`);
+        details.push({
+          sourceComment,
+          transferred: false,
+          reason: 'Resolved on source',
+          similarity,
+        });
+        skipped++;
+        continue;
+      }
+
       // Prepare comment text with confidence indicator
       const confidenceEmoji = {
         high: '✓',
@@ -98,12 +187,56 @@ export class CommentTransfer {
       }[confidence || 'medium'];
       
       // FIXED: Use actual comment text instead of placeholder frame number
-      let commentText = sourceComment.text || 'No comment text';
+      const { region } = match;
+      let commentText = withAttribution(sourceComment.text || 'No comment text', sourceComment, attribution);
       if (addPrefix) {
-        commentText = `[Transferred ${confidenceEmoji}] ${commentText}`;
+        const regionMark = region?.changed ? ' · region changed' : '';
+        commentText = `[Transferred ${confidenceEmoji}${regionMark}] ${commentText}`;
+      }
+
+      // Already on the target? Each existing comment stands in for one match at most
+      const duplicate = findDuplicate(match, existing, claimed);
+      if (duplicate) {
+        claimed.add(duplicate.comment.id);
+        const duplicateDetail: TransferDetail = {
+          sourceComment,
+          targetTimestamp,
+          targetFrameNumber: match.targetFrameNumber,
+          duplicateOf: duplicate.comment.id,
+          transferred: false,
+          reason: `Already on target (${duplicate.by} match)`,
+          similarity,
+        };
+
+        if (duplicates === 'skip') {
+          console.log(`⏭️  Skipping comment (already on target, ${duplicate.by} match): "${sourceComment.text?.substring(0, 50)}..."`);
+          details.push(duplicateDetail);
+          skipped++;
+          continue;
+        }
+
+        try {
+          const completes = resolved && resolvedComments === 'complete';
+          await this.client.updateFileComment(accountId, duplicate.comment.id, {
+            text: commentText,
+            ...(completes ? { completed: true } : {}),
+          });
+          console.log(`🔄 Updated existing comment ${duplicate.comment.id} (${duplicate.by} match): "${commentText.substring(0, 40)}..."`);
+          details.push({ ...duplicateDetail, updated: true, reason: `${duplicateDetail.reason}; updated` });
+          updated++;
+        } catch (error) {
+          console.error(`❌ Failed to update comment ${duplicate.comment.id}: ${error instanceof Error ? error.message : String(error)}`);
+          details.push({
+            ...duplicateDetail,
+            reason: `${duplicateDetail.reason}; update failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
+          failed++;
+        }
+        continue;
       }
 
-      // Use the targetFrameNumber from the match (already calculated with correct FPS)
+      // targetFrameNumber is already in the target's numbering (target fps, retime-mapped),
+      // so fps conversions between versions never leak source frame numbers into the payload
       const matchedFrameNumber = match.targetFrameNumber;
       
       // WORKAROUND: Frame.io bug - comments display 1 frame early (n-1)
@@ -112,17 +245,34 @@ export class CommentTransfer {
       // Example: We want frame 336 → send 337 → Frame.io displays at 336
       const frameNumber = matchedFrameNumber + 1;
 
+      // Ranged comments: recreate the resolved target range (point-only when reversed or unbounded)
+      const { range } = match;
+      const duration = range && range.targetOutFrame > range.targetInFrame
+        ? range.targetOutFrame - range.targetInFrame
+        : undefined;
+      const rangeReason = range && range.outcome !== 'intact' ? range.detail : undefined;
+
+      // Drawings: remap strokes through the estimated reframe (identity when none was found)
+      const { annotation, annotationNote } = this.prepareAnnotation(match, transferAnnotations);
+      const { pin, pinOutOfFrame, pinNote } = this.preparePin(match);
+      const regionNote = region?.changed
+        ? `Area under the note changed (score ${region.changeScore.toFixed(2)})`
+        : undefined;
+      const reason = [rangeReason, regionNote, pinNote, annotationNote].filter(Boolean).join('; ') || undefined;
+
       try {
         console.log(
-          `📝 Transferring: "${commentText.substring(0, 40)}..." @ frame ${matchedFrameNumber} ` +
+          `📝 Transferring: "${commentText.substring(0, 40)}..." @ frame ${matchedFrameNumber}${duration ? ` (+${duration} frames)` : ''} ` +
           `(${(similarity * 100).toFixed(1)}% ${confidence}) → API sends ${frameNumber} (Frame.io n-1 bug fix)`
         );
 
         const commentData = {
           text: commentText,
           timestamp: frameNumber,
-          // TODO: Transfer annotation data if present and transferAnnotations is true
-          // annotation: transferAnnotations && sourceComment.annotation ? sourceComment.annotation : undefined,
+          duration,
+          x: pin?.x,
+          y: pin?.y,
+          annotation,
         };
 
         // Create comment on target file
@@ -132,10 +282,46 @@ export class CommentTransfer {
           commentData
         );
 
+        // Recreate the conversation under the new comment, in original order
+        const replies = sourceComment.replies ?? [];
+        const replyResult = replies.length > 0
+          ? await this.transferReplies(accountId, newComment.id, replies, attribution)
+          : undefined;
+
+        // Carry the resolved state over (after the replies, so the thread is complete when it closes)
+        let completed: boolean | undefined;
+        let completeNote: string | undefined;
+        if (resolved && resolvedComments === 'complete') {
+          try {
+            await this.client.updateFileComment(accountId, newComment.id, { completed: true });
+            completed = true;
+          } catch (error) {
+            console.error(`❌ Failed to complete comment ${newComment.id}: ${error instanceof Error ? error.message : String(error)}`);
+            completed = false;
+            completeNote = 'Could not mark as completed on target';
+          }
+        }
+
         details.push({
           sourceComment,
           targetTimestamp,
+          targetFrameNumber: matchedFrameNumber,
+          targetDuration: duration,
+          pinOutOfFrame,
+          regionChangeScore: region?.changeScore,
+          regionChanged: region?.changed,
+          repliesTransferred: replyResult?.transferred,
+          repliesFailed: replyResult?.failed,
+          completed,
+          originVersion: match.origin?.version,
+          sourceFileId: match.sourceFileId,
+          sourceTimestamp: match.sourceTimestamp,
           transferred: true,
+          reason: [
+            reason,
+            replyResult?.failed ? `${replyResult.failed}/${replies.length} replies failed to transfer` : undefined,
+            completeNote,
+          ].filter(Boolean).join('; ') || undefined,
           similarity,
           newCommentId: newComment.id,
         });
@@ -149,6 +335,7 @@ export class CommentTransfer {
         details.push({
           sourceComment,
           targetTimestamp,
+          targetFrameNumber: matchedFrameNumber,
           transferred: false,
           reason: `API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
           similarity,
@@ -158,7 +345,13 @@ export class CommentTransfer {
     }
 
       // End of batch summary
-      console.log(`   Batch ${batchIndex + 1}/${totalBatches}: ✅ ${transferred} | ⏭️  ${skipped} | ❌ ${failed}`);
+      console.log(`   Batch ${batchIndex + 1}/${totalBatches}: ✅ ${transferred} | 🔄 ${updated} | ⏭️  ${skipped} | ❌ ${failed}`);
+      batchStart = batchEnd;
+
+      if (signal?.aborted) {
+        console.warn(`⛔ Transfer stopped after batch ${batchIndex + 1}/${totalBatches}`);
+        break;
+      }
 
       // Wait 60 seconds before next batch (respect Frame.io rate limit)
       if (batchIndex < totalBatches - 1) {
@@ -167,14 +360,258 @@ export class CommentTransfer {
       }
     }
 
-    console.log(`\n📊 Transfer Complete: ✅ ${transferred} | ⏭️  ${skipped} | ❌ ${failed}\n`);
+    console.log(`\n📊 Transfer Complete: ✅ ${transferred} | 🔄 ${updated} | ⏭️  ${skipped} | ❌ ${failed}\n`);
 
     return {
       success: failed === 0,
       transferred,
       failed,
       skipped,
+      updated,
       details,
     };
   }
+
+  /**
+   * Delete comments created by an earlier transfer (job revert), BATCH_SIZE calls per minute
+   * Comments already deleted in Frame.io count as removed. An aborted signal stops
+   * between calls; the result covers what was deleted so far.
+   */
+  async deleteComments(accountId: string, commentIds: string[], signal?: AbortSignal): Promise<DeleteResult> {
+    const totalBatches = Math.ceil(commentIds.length / BATCH_SIZE);
+    console.log(`\n🗑️  Deleting ${commentIds.length} comments, ${totalBatches} batches, ~${totalBatches} min\n`);
+
+    const deleted: string[] = [];
+    const failed: DeleteResult['failed'] = [];
+    let alreadyDeleted = 0;
+
+    for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
+      const batch = commentIds.slice(batchIndex * BATCH_SIZE, (batchIndex + 1) * BATCH_SIZE);
+
+      for (const commentId of batch) {
+        if (signal?.aborted) break;
+        try {
+          await this.client.deleteComment(accountId, commentId);
+          deleted.push(commentId);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (/\b404\b|not found/i.test(message)) {
+            deleted.push(commentId);
+            alreadyDeleted++;
+          } else {
+            console.error(`❌ Failed to delete comment ${commentId}: ${message}`);
+            failed.push({ commentId, error: message });
+          }
+        }
+      }
+
+      console.log(`   Batch ${batchIndex + 1}/${totalBatches}: 🗑️  ${deleted.length} | ❌ ${failed.length}`);
+      if (signal?.aborted) {
+        console.warn(`⛔ Delete stopped after batch ${batchIndex + 1}/${totalBatches}`);
+        break;
+      }
+      if (batchIndex < totalBatches - 1) {
+        console.log(`   ⏳ Rate limit cooldown: ${RATE_LIMIT_DELAY_MS / 1000}s...`);
+        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
+      }
+    }
+
+    console.log(`\n📊 Delete Complete: 🗑️  ${deleted.length} (${alreadyDeleted} already gone) | ❌ ${failed.length}\n`);
+    return { deleted, alreadyDeleted, failed };
+  }
+
+  /**
+   * Comments already on the target, plus the recorded lineage of those and the source comments
+   * Lineage is best-effort: without it, earlier transfers are still found by text and position.
+   */
+  private async loadExistingComments(
+    accountId: string,
+    targetFileId: string,
+    matches: CommentMatch[]
+  ): Promise<ExistingComments> {
+    let targetComments: FrameioComment[];
+    try {
+      targetComments = await this.client.getFileComments(accountId, targetFileId);
+    } catch (error) {
+      console.warn('⚠️  Could not load target comments (duplicate check skipped):', error);
+      return { comments: [], ancestors: new Map() };
+    }
+    if (targetComments.length === 0) {
+      return { comments: [], ancestors: new Map() };
+    }
+
+    let ancestors = new Map<string, string[]>();
+    try {
+      ancestors = await commentAncestors([
+        ...targetComments.map(c => c.id),
+        ...matches.map(m => m.sourceComment.id),
+      ]);
+    } catch (error) {
+      console.warn('⚠️  Lineage lookup failed (matching earlier transfers by text only):', error);
+    }
+
+    console.log(`🔁 Target already has ${targetComments.length} comments - checking for earlier transfers`);
+    return { comments: targetComments, ancestors };
+  }
+
+  /**
+   * Post a thread's replies under the transferred parent, oldest first
+   * Frame.io replies are created as the current user, so the original author
+   * and time go into the text - always, even with attribution turned off, since
+   * a conversation without speakers is unreadable. Threads longer than a batch
+   * pause for the rate limit.
+   */
+  private async transferReplies(
+    accountId: string,
+    parentCommentId: string,
+    replies: FrameioComment[],
+    attribution: AttributionOptions
+  ): Promise<{ transferred: number; failed: number }> {
+    const replyAttribution: AttributionOptions = attribution.enabled
+      ? attribution
+      : { ...attribution, enabled: true, fields: ['author', 'date'] };
+
+    let transferred = 0;
+    let failed = 0;
+
+    for (let i = 0; i < replies.length; i++) {
+      // The parent used one call of the first batch
+      if ((i + 1) % BATCH_SIZE === 0) {
+        console.log(`   ⏳ Long thread, rate limit cooldown: ${RATE_LIMIT_DELAY_MS / 1000}s...`);
+        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
+      }
+
+      const reply = replies[i];
+      try {
+        await this.client.createCommentReply(accountId, parentCommentId, {
+          text: withAttribution(reply.text || '', reply, replyAttribution),
+        });
+        transferred++;
+      } catch (error) {
+        console.error(
+          `❌ Failed to transfer reply ${reply.id}: ${error instanceof Error ? error.message : String(error)}`
+        );
+        failed++;
+      }
+    }
+
+    console.log(`   💬 Thread: ${transferred}/${replies.length} replies transferred`);
+    return { transferred, failed };
+  }
+
+  /**
+   * Map a match's pin (x/y) to the same spot in the target framing
+   * A pin pushed outside the frame by a reframe is clamped to the nearest edge and flagged.
+   */
+  private preparePin(match: CommentMatch): { pin?: Point; pinOutOfFrame?: boolean; pinNote?: string } {
+    const { sourceComment, geometry } = match;
+    if (typeof sourceComment.x !== 'number' || typeof sourceComment.y !== 'number') {
+      return {};
+    }
+
+    const transform = geometry?.transform ?? IDENTITY_TRANSFORM;
+    const mapped = applyTransform(transform, { x: sourceComment.x, y: sourceComment.y });
+    const clamp = (n: number) => Math.min(1, Math.max(0, n));
+    const pin = { x: clamp(mapped.x), y: clamp(mapped.y) };
+
+    if (!isInFrame(mapped)) {
+      return {
+        pin,
+        pinOutOfFrame: true,
+        pinNote: `Pin outside target frame after reframe (${mapped.x.toFixed(2)}, ${mapped.y.toFixed(2)}); clamped to edge`,
+      };
+    }
+    if (!isIdentityTransform(transform)) {
+      return {
+        pin,
+        pinOutOfFrame: false,
+        pinNote: `Pin moved (${sourceComment.x.toFixed(2)}, ${sourceComment.y.toFixed(2)}) → (${pin.x.toFixed(2)}, ${pin.y.toFixed(2)})`,
+      };
+    }
+    return { pin, pinOutOfFrame: false };
+  }
+
+  /**
+   * Transform a match's drawing into the target's coordinate space
+   * Strokes pushed outside the target frame by a reframe are kept (Frame.io clips them)
+   * but reported, since part of the note may no longer be visible.
+   */
+  private prepareAnnotation(
+    match: CommentMatch,
+    transferAnnotations: boolean
+  ): { annotation?: unknown; annotationNote?: string } {
+    const { sourceComment, geometry } = match;
+    if (!transferAnnotations || !sourceComment.annotation) {
+      return {};
+    }
+
+    const transform = geometry?.transform ?? IDENTITY_TRANSFORM;
+    const result = transformAnnotation(sourceComment.annotation, transform);
+
+    const notes: string[] = [];
+    if (!isIdentityTransform(transform)) {
+      notes.push(`Drawing remapped for reframe (scale ${transform.a.toFixed(2)}x${transform.d.toFixed(2)})`);
+    } else if (geometry && !geometry.reliable) {
+      notes.push('Drawing copied unchanged (reframe could not be estimated)');
+    }
+    if (result.outOfFrame > 0) {
+      notes.push(`${result.outOfFrame}/${result.pointCount} drawing points fall outside the target frame`);
+    }
+
+    return { annotation: result.annotation, annotationNote: notes.join('; ') || undefined };
+  }
+}
+
+/**
+ * Existing target comment that already is this note
+ * - lineage: the two share a recorded ancestor (one copied from the other, or both from one note)
+ * - text: same note text (transfer markup ignored) within DUPLICATE_WINDOW_SECONDS of the placement
+ */
+function findDuplicate(
+  match: CommentMatch,
+  existing: ExistingComments,
+  claimed: Set<string>
+): { comment: FrameioComment; by: 'lineage' | 'text' } | null {
+  const candidates = existing.comments.filter(c => !claimed.has(c.id));
+  if (candidates.length === 0) return null;
+
+  const family = (commentId: string) => [commentId, ...(existing.ancestors.get(commentId) ?? [])];
+  const sourceFamily = new Set(family(match.sourceComment.id));
+  const byLineage = candidates.find(c => family(c.id).some(id => sourceFamily.has(id)));
+  if (byLineage) return { comment: byLineage, by: 'lineage' };
+
+  // Existing timestamps are target frames (sent n+1, within the window either way)
+  const fps = match.targetTimestamp > 0 ? match.targetFrameNumber / match.targetTimestamp : FALLBACK_FPS;
+  const key = noteKey(match.sourceComment.text);
+  if (!key) return null; // Drawing-only notes have no text to compare
+  const byText = candidates.find(c =>
+    typeof c.timestamp === 'number' &&
+    Math.abs(c.timestamp - match.targetFrameNumber) <= DUPLICATE_WINDOW_SECONDS * fps &&
+    noteKey(c.text) === key
+  );
+  return byText ? { comment: byText, by: 'text' } : null;
+}
+
+/**
+ * Group matches into batches of at most BATCH_SIZE API calls (comment + replies + completion)
+ * A single thread larger than a batch gets a batch of its own.
+ */
+function planBatches(matches: CommentMatch[], resolvedComments: ResolvedCommentsMode): CommentMatch[][] {
+  const batches: CommentMatch[][] = [];
+  let current: CommentMatch[] = [];
+  let calls = 0;
+
+  for (const match of matches) {
+    const completes = resolvedComments === 'complete' && isResolved(match.sourceComment);
+    const cost = 1 + (match.sourceComment.replies?.length ?? 0) + (completes ? 1 : 0);
+    if (current.length > 0 && calls + cost > BATCH_SIZE) {
+      batches.push(current);
+      current = [];
+      calls = 0;
+    }
+    current.push(match);
+    calls += cost;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
 }
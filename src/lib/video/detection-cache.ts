@@ -0,0 +1,65 @@
+import { db, mediaDetections, videos } from '@/lib/db';
+import { and, eq, ne, sql } from 'drizzle-orm';
+import type { NormalizedRect } from '../ai/perceptual-hash';
+import type { CropDetection } from './frame-extractor';
+import type { MediaKey } from './frame-hash-cache';
+import { ensureVideo } from './comment-lineage';
+
+/**
+ * Detection cache
+ *
+ * Crop and overlay detection sample-decode a proxy before anything is hashed,
+ * and their results feed the frame hash cache key, so they have to be known
+ * before that cache can even be consulted. Both depend only on the media, so
+ * they are stored per Frame.io file and media fingerprint (see MediaKey) and
+ * a file seen before skips the decoding.
+ */
+export interface MediaDetections {
+  crop?: CropDetection;               // detectCrop result
+  changingRegions?: NormalizedRect[]; // detectChangingRegions result
+}
+
+/**
+ * Detections stored for a file (empty when none match its fingerprint)
+ */
+export async function loadDetections(key: MediaKey): Promise<MediaDetections> {
+  const [row] = await db.select({ crop: mediaDetections.crop, changingRegions: mediaDetections.changingRegions })
+    .from(mediaDetections)
+    .innerJoin(videos, eq(mediaDetections.videoId, videos.id))
+    .where(and(eq(videos.frameioId, key.fileId), eq(mediaDetections.fingerprint, key.fingerprint)))
+    .limit(1);
+
+  return {
+    crop: row?.crop ?? undefined,
+    changingRegions: row?.changingRegions ?? undefined,
+  };
+}
+
+/**
+ * Store detections for a file, keeping ones already stored that this call doesn't include
+ * Rows from an outdated fingerprint are dropped.
+ */
+export async function saveDetections(key: MediaKey, detections: MediaDetections): Promise<void> {
+  const videoId = await ensureVideo(key.fileId, key.fileName);
+
+  await db.delete(mediaDetections).where(and(
+    eq(mediaDetections.videoId, videoId),
+    ne(mediaDetections.fingerprint, key.fingerprint),
+  ));
+
+  await db.insert(mediaDetections)
+    .values({
+      videoId,
+      fingerprint: key.fingerprint,
+      crop: detections.crop ?? null,
+      changingRegions: detections.changingRegions ?? null,
+    })
+    .onConflictDoUpdate({
+      target: [mediaDetections.videoId, mediaDetections.fingerprint],
+      set: {
+        crop: sql`coalesce(excluded.crop, ${mediaDetections.crop})`,
+        changingRegions: sql`coalesce(excluded.changing_regions, ${mediaDetections.changingRegions})`,
+        updatedAt: new Date(),
+      },
+    });
+}
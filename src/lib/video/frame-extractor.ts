@@ -1,6 +1,8 @@
-import { execSync, spawn } from 'child_process';
+import { execFile, execSync, spawn } from 'child_process';
 import { existsSync } from 'fs';
-import { generateFrameHash, type FrameHash } from '../ai/perceptual-hash';
+import { promisify } from 'util';
+import { generateFrameHash, HASH_WORDS, type FrameHash, type HashOptions, type NormalizedRect } from '../ai/perceptual-hash';
+import { AUDIO_SAMPLE_RATE, AudioFingerprinter, type AudioFingerprint } from '../ai/audio-fingerprint';
 
 // Helper to find FFmpeg/ffprobe binaries
 // Priority: 1. System binaries (/usr/bin) 2. npm static binaries 3. PATH
@@ -42,8 +44,11 @@ function findBinary(name: 'ffmpeg' | 'ffprobe'): string {
   return name;
 }
 
-const FFMPEG_BIN = findBinary('ffmpeg');
-const FFPROBE_BIN = findBinary('ffprobe');
+export const FFMPEG_BIN = findBinary('ffmpeg');
+export const FFPROBE_BIN = findBinary('ffprobe');
+
+// Probes run while workers heartbeat their leases, so they must not block the event loop
+const execFileAsync = promisify(execFile);
 
 export interface ExtractedFrame {
   frameNumber?: number;  // For source frames (Frame.io uses frame numbers)
@@ -51,9 +56,19 @@ export interface ExtractedFrame {
   buffer: Buffer;
 }
 
+export interface CropDetection {
+  rect: NormalizedRect;  // Active picture area, normalized to frame size
+  pixels: { x: number; y: number; width: number; height: number };
+  frameWidth: number;
+  frameHeight: number;
+  samples: number;       // Number of sample points that produced a valid crop
+  isCropped: boolean;    // False when the active picture fills the frame
+}
+
 // Configuration constants
 export const KEYFRAME_INTERVAL_SECONDS = 1.0;  // Extract target keyframes every 1 second
 export const REFINEMENT_WINDOW_SECONDS = 0.5;  // ±0.5s around coarse matches
+export const CROP_SAMPLE_COUNT = 8;            // Sample points for letterbox/pillarbox detection
 
 /**
  * Extract frames at specific frame numbers from a video URL (FRAME-BASED for source comments)
@@ -296,10 +311,12 @@ export async function getVideoMetadata(videoUrl: string): Promise<{
   height: number;
 }> {
   try {
-    const ffprobeCommand = `"${FFPROBE_BIN}" -v quiet -print_format json -show_format -show_streams "${videoUrl}"`;
-    
-    const output = execSync(ffprobeCommand, { encoding: 'utf8' });
-    const data = JSON.parse(output);
+    const { stdout } = await execFileAsync(
+      FFPROBE_BIN,
+      ['-v', 'quiet', '-print_format', 'json', '-show_format', '-show_streams', videoUrl],
+      { maxBuffer: 5 * 1024 * 1024 }
+    );
+    const data = JSON.parse(stdout);
     
     const videoStream = data.streams.find((s: { codec_type: string }) => s.codec_type === 'video');
     if (!videoStream) {
@@ -326,6 +343,90 @@ export async function getVideoMetadata(videoUrl: string): Promise<{
   }
 }
 
+/**
+ * Detect letterbox/pillarbox bars using FFmpeg cropdetect
+ * Samples short windows spread over the video and takes the union of the detected
+ * rectangles (dark scenes shrink the detected area, so any single sample under-reports).
+ * 
+ * @param videoUrl - URL to video file
+ * @param sampleCount - Number of evenly spaced sample points
+ * @returns Active picture rectangle (full frame if no bars are found)
+ */
+export async function detectCrop(
+  videoUrl: string,
+  sampleCount: number = CROP_SAMPLE_COUNT
+): Promise<CropDetection> {
+  const metadata = await getVideoMetadata(videoUrl);
+  const { width: frameWidth, height: frameHeight } = metadata;
+  console.log(`🔲 Detecting crop at ${sampleCount} sample points...`);
+
+  let union: { left: number; top: number; right: number; bottom: number } | null = null;
+  let samples = 0;
+
+  for (let i = 0; i < sampleCount; i++) {
+    const timestamp = ((i + 0.5) / sampleCount) * metadata.duration;
+
+    try {
+      // cropdetect logs to stderr; limit=24 treats near-black as bars, reset=0 accumulates over the window
+      const { stderr } = await execFileAsync(
+        FFMPEG_BIN,
+        ['-ss', timestamp.toFixed(3), '-i', videoUrl, '-vf', 'cropdetect=limit=24:round=2:reset=0', '-frames:v', '12', '-f', 'null', '-'],
+        { maxBuffer: 5 * 1024 * 1024 }
+      );
+
+      const crops = [...stderr.matchAll(/crop=(-?\d+):(-?\d+):(-?\d+):(-?\d+)/g)];
+      if (crops.length === 0) continue;
+
+      // Last line has seen the whole window
+      const [, w, h, x, y] = crops[crops.length - 1].map(Number);
+      if (w <= 0 || h <= 0) continue; // Fully black sample
+
+      union = union
+        ? {
+            left: Math.min(union.left, x),
+            top: Math.min(union.top, y),
+            right: Math.max(union.right, x + w),
+            bottom: Math.max(union.bottom, y + h),
+          }
+        : { left: x, top: y, right: x + w, bottom: y + h };
+      samples++;
+    } catch (error) {
+      console.warn(`⚠️ cropdetect failed at ${timestamp.toFixed(1)}s:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const left = Math.max(0, union?.left ?? 0);
+  const top = Math.max(0, union?.top ?? 0);
+  const width = Math.min(frameWidth, union?.right ?? frameWidth) - left;
+  const height = Math.min(frameHeight, union?.bottom ?? frameHeight) - top;
+
+  // Ignore slivers (<2% per axis) - encoder edge noise, not mattes
+  const isCropped = width < frameWidth * 0.98 || height < frameHeight * 0.98;
+  const pixels = isCropped
+    ? { x: left, y: top, width, height }
+    : { x: 0, y: 0, width: frameWidth, height: frameHeight };
+
+  console.log(
+    isCropped
+      ? `✅ Active picture: ${pixels.width}x${pixels.height} at (${pixels.x},${pixels.y}) in ${frameWidth}x${frameHeight} frame`
+      : `✅ No letterbox/pillarbox detected (${samples}/${sampleCount} samples)`
+  );
+
+  return {
+    rect: {
+      x: pixels.x / frameWidth,
+      y: pixels.y / frameHeight,
+      width: pixels.width / frameWidth,
+      height: pixels.height / frameHeight,
+    },
+    pixels,
+    frameWidth,
+    frameHeight,
+    samples,
+    isCropped,
+  };
+}
+
 /**
  * Extract I-frames (intra-coded frames) from video (ADAPTIVE KEYFRAMES for target video)
  * I-frames are naturally encoded keyframes placed by the video encoder.
@@ -345,7 +446,7 @@ export async function getVideoMetadata(videoUrl: string): Promise<{
  * Architecture:
  * 1. FFmpeg stdout → Extract complete PNG frames synchronously → frameQueue[]
  * 2. Async processor → Hash batches of 10 frames in parallel → hashes[]
- * 3. Only 16-byte hashes stored (not 20KB PNG buffers)
+ * 3. Only packed 128-byte hashes stored (not 20KB PNG buffers)
  * 
  * This is FASTER than sparse extraction because:
  * - One continuous HTTP session (no reconnection overhead)
@@ -356,18 +457,20 @@ export async function getVideoMetadata(videoUrl: string): Promise<{
  * Memory profile:
  * - chunks[]: ~320KB (raw FFmpeg output accumulator)
  * - frameQueue[]: ~1MB (10-50 PNGs waiting to be hashed)
- * - hashes[]: ~500KB (31,200 * 16 bytes for full video)
- * - Total peak: ~2MB (vs 4.5GB if storing all frames)
+ * - hashes[]: ~4MB (31,200 * 128 bytes packed Uint32Array for full video)
+ * - Total peak: ~6MB (vs 4.5GB if storing all frames)
  * 
  * @param videoUrl - URL to video file
  * @param fps - Native FPS of the video
  * @param decimationFactor - Extract every Nth frame (1 = all frames, 2 = every other frame, etc.)
- * @returns Array of FrameHash objects (16 bytes each, not full frames)
+ * @param hashOptions - Extra signatures to compute per frame (ensemble matching)
+ * @returns Array of FrameHash objects (128-byte packed hashes, not full frames)
  */
 export async function extractAllFrames(
   videoUrl: string,
   fps: number,
-  decimationFactor: number = 1
+  decimationFactor: number = 1,
+  hashOptions: HashOptions = {}
 ): Promise<FrameHash[]> {
   return new Promise(async (resolve, reject) => {
     try {
@@ -403,7 +506,7 @@ export async function extractAllFrames(
         try {
           const batchHashes = await Promise.all(
             batch.map(({ frameNumber, timestamp, buffer }) => 
-              generateFrameHash(buffer, frameNumber, timestamp)
+              generateFrameHash(buffer, frameNumber, timestamp, hashOptions)
             )
           );
           
@@ -522,7 +625,7 @@ export async function extractAllFrames(
             `(${realtimeRatio.toFixed(1)}x realtime)`
           );
 
-          console.log(`✅ All frames hashed and ready for matching (${hashes.length.toLocaleString()} hashes, ~${(hashes.length * 16 / 1024).toFixed(0)}KB)`);
+          console.log(`✅ All frames hashed and ready for matching (${hashes.length.toLocaleString()} hashes, ~${(hashes.length * HASH_WORDS * 4 / 1024).toFixed(0)}KB)`);
           resolve(hashes);
         } catch (error) {
           reject(error);
@@ -540,6 +643,85 @@ export async function extractAllFrames(
   });
 }
 
+/**
+ * Decode a video's audio track and fingerprint it in a single streaming pass
+ * Rejects if the file has no audio stream (callers treat audio as optional).
+ *
+ * @param videoUrl - URL to video file
+ * @returns Per-hop spectral fingerprint (~2.5MB for 2 hours, no PCM retained)
+ */
+export async function extractAudioFingerprint(videoUrl: string): Promise<AudioFingerprint> {
+  const fingerprinter = new AudioFingerprinter();
+  await streamAudioPcm(videoUrl, AUDIO_SAMPLE_RATE, samples => fingerprinter.push(samples));
+  return fingerprinter.finish();
+}
+
+/**
+ * Stream a video's audio as mono 16-bit PCM (for audio fingerprinting)
+ * Samples are handed to the callback as FFmpeg produces them, so memory stays
+ * flat regardless of duration. Rejects if the file has no audio stream.
+ *
+ * @param videoUrl - URL to video file
+ * @param sampleRate - Output sample rate in Hz (downmixed to mono)
+ * @param onSamples - Receives each decoded chunk
+ */
+async function streamAudioPcm(
+  videoUrl: string,
+  sampleRate: number,
+  onSamples: (samples: Int16Array) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const startTime = Date.now();
+    let leftover: Buffer | null = null;
+    let sampleCount = 0;
+
+    const ffmpeg = spawn(FFMPEG_BIN, [
+      '-i', videoUrl,
+      '-vn',
+      '-ac', '1',
+      '-ar', String(sampleRate),
+      '-f', 's16le',
+      '-',
+    ], {
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => {
+      // Chunks can split a sample in half - carry the odd byte over
+      const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      leftover = usable < data.length ? Buffer.from(data.subarray(usable)) : null;
+
+      const samples = new Int16Array(usable / 2);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = data.readInt16LE(i * 2);
+      }
+      sampleCount += samples.length;
+      onSamples(samples);
+    });
+
+    let stderr = '';
+    ffmpeg.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-2000);
+    });
+
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`FFmpeg audio extraction exited with code ${code}: ${stderr.split('\n').filter(Boolean).pop() ?? ''}`));
+        return;
+      }
+      console.log(
+        `🔊 Decoded ${(sampleCount / sampleRate).toFixed(1)}s of audio in ${((Date.now() - startTime) / 1000).toFixed(1)}s`
+      );
+      resolve();
+    });
+
+    ffmpeg.on('error', (error) => {
+      reject(new Error(`FFmpeg spawn error: ${error.message}`));
+    });
+  });
+}
+
 export async function extractIFrames(
   videoUrl: string,
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -0,0 +1,217 @@
+import { createHash } from 'crypto';
+import { db, frames, videos, type NewFrame } from '@/lib/db';
+import { and, asc, eq, ne } from 'drizzle-orm';
+import type { FrameioFile } from '@/lib/frameio-client';
+import { HASH_WORDS, type FrameHash, type HashOptions, type NormalizedRect } from '../ai/perceptual-hash';
+import type { SignatureAlgorithmId } from '../ai/signatures';
+import { ensureVideo } from './comment-lineage';
+
+/**
+ * Frame hash cache
+ *
+ * Hashing every frame of a proxy is the slowest step of a job, and the same
+ * files come back: a re-run, the next version in a chain (v2 is the target of
+ * v1 → v2 and the source of v2 → v3), every older version of a merge matched
+ * against one target. Full-pass hashes are therefore stored per Frame.io file
+ * in the frames table, in rows of FRAMES_PER_ROW packed records.
+ *
+ * A set is keyed by file id, a media fingerprint (so a re-transcoded proxy is
+ * hashed again) and a digest of the hash settings (crop, masks, normalization,
+ * signatures), since each of those changes the bits. Sets from an outdated
+ * fingerprint are dropped when the new one is saved.
+ */
+export interface MediaKey {
+  fileId: string;
+  fileName: string;
+  fingerprint: string;
+}
+
+const FRAMES_PER_ROW = 1000;   // ~180 KB of base64 per row for dHash-only sets
+const ROWS_PER_INSERT = 4;
+const FORMAT_VERSION = 1;      // Bump when the record layout or hashing changes
+
+// Record layout (little-endian): frame number, timestamp, flags, dHash words, then optional parts
+const FLAG_RAW_BITS = 1;
+const FLAG_BRIGHTNESS = 2;
+const FLAG_FRAME_NUMBER = 4;
+const FLAG_TIMESTAMP = 8;
+const SIGNATURE_IDS: SignatureAlgorithmId[] = ['dhash', 'phash', 'ahash', 'blockmean', 'colorhist'];
+const VECTOR_UINT32 = 0;
+const VECTOR_FLOAT32 = 1;
+
+/**
+ * Identify the media behind a file id: original size plus the proxy's geometry, rate and length
+ */
+export function mediaFingerprint(
+  file: FrameioFile,
+  metadata: { width: number; height: number; fps: number; frameCount: number }
+): string {
+  const size = file.file_size ?? file.filesize ?? 'unknown';
+  return `${size}:${metadata.width}x${metadata.height}@${metadata.fps}:${metadata.frameCount}`;
+}
+
+/**
+ * Cached full-pass hashes for a file, or null on a miss (incomplete sets count as misses)
+ */
+export async function loadFrameHashes(key: MediaKey, options: HashOptions): Promise<FrameHash[] | null> {
+  const rows = await db.select({
+    frameNumber: frames.frameNumber,
+    frameCount: frames.frameCount,
+    totalFrames: frames.totalFrames,
+    hashes: frames.hashes,
+  })
+    .from(frames)
+    .innerJoin(videos, eq(frames.videoId, videos.id))
+    .where(and(
+      eq(videos.frameioId, key.fileId),
+      eq(frames.fingerprint, key.fingerprint),
+      eq(frames.optionsKey, optionsKey(options)),
+    ))
+    .orderBy(asc(frames.frameNumber));
+
+  if (rows.length === 0) return null;
+
+  const stored = rows.reduce((sum, row) => sum + row.frameCount, 0);
+  if (stored !== rows[0].totalFrames) {
+    console.warn(`⚠️  Frame hash cache for ${key.fileName} is incomplete (${stored}/${rows[0].totalFrames} frames), re-hashing`);
+    return null;
+  }
+
+  return rows.flatMap(row => unpackHashes(Buffer.from(row.hashes, 'base64')));
+}
+
+/**
+ * Store full-pass hashes for a file, replacing any set from an outdated fingerprint
+ */
+export async function saveFrameHashes(key: MediaKey, options: HashOptions, hashes: FrameHash[]): Promise<void> {
+  if (hashes.length === 0) return;
+
+  const videoId = await ensureVideo(key.fileId, key.fileName);
+  const digest = optionsKey(options);
+
+  await db.delete(frames).where(and(
+    eq(frames.videoId, videoId),
+    eq(frames.optionsKey, digest),
+    ne(frames.fingerprint, key.fingerprint),
+  ));
+
+  const rows: NewFrame[] = [];
+  for (let start = 0; start < hashes.length; start += FRAMES_PER_ROW) {
+    const chunk = hashes.slice(start, start + FRAMES_PER_ROW);
+    rows.push({
+      videoId,
+      frameNumber: chunk[0].frameNumber ?? start,
+      timestampSeconds: (chunk[0].timestamp ?? 0).toFixed(3),
+      fingerprint: key.fingerprint,
+      optionsKey: digest,
+      frameCount: chunk.length,
+      totalFrames: hashes.length,
+      hashes: packHashes(chunk).toString('base64'),
+    });
+  }
+
+  // A concurrent job may be saving the same set; whichever rows land first win
+  for (let i = 0; i < rows.length; i += ROWS_PER_INSERT) {
+    await db.insert(frames).values(rows.slice(i, i + ROWS_PER_INSERT)).onConflictDoNothing();
+  }
+
+  console.log(`💾 Cached ${hashes.length.toLocaleString()} frame hashes for ${key.fileName} (${rows.length} rows)`);
+}
+
+/**
+ * Digest of everything that changes the bits of a frame hash
+ * Rects are rounded so float noise in crop detection doesn't split sets.
+ */
+function optionsKey(options: HashOptions): string {
+  const rect = (r: NormalizedRect) => [r.x, r.y, r.width, r.height].map(v => Number(v.toFixed(4)));
+  const settings = {
+    format: FORMAT_VERSION,
+    algorithms: [...(options.algorithms ?? [])].sort(),
+    normalization: options.normalization ?? 'none',
+    crop: options.crop ? rect(options.crop) : null,
+    masks: (options.masks ?? []).map(rect),
+  };
+  return createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+}
+
+function packHashes(hashes: FrameHash[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const hash of hashes) {
+    const signatures = Object.entries(hash.signatures ?? {}) as Array<[SignatureAlgorithmId, Uint32Array | Float32Array]>;
+    const flags =
+      (hash.rawBits ? FLAG_RAW_BITS : 0) |
+      (hash.avgBrightness !== undefined ? FLAG_BRIGHTNESS : 0) |
+      (hash.frameNumber !== undefined ? FLAG_FRAME_NUMBER : 0) |
+      (hash.timestamp !== undefined ? FLAG_TIMESTAMP : 0);
+
+    const header = Buffer.alloc(4 + 8 + 1 + 1 + 1);
+    header.writeUInt32LE(hash.frameNumber ?? 0, 0);
+    header.writeDoubleLE(hash.timestamp ?? 0, 4);
+    header.writeUInt8(flags, 12);
+    header.writeUInt8(hash.avgBrightness ?? 0, 13);
+    header.writeUInt8(signatures.length, 14);
+    parts.push(header, wordsToBuffer(hash.bits));
+    if (hash.rawBits) parts.push(wordsToBuffer(hash.rawBits));
+
+    for (const [id, vector] of signatures) {
+      const signatureHeader = Buffer.alloc(4);
+      signatureHeader.writeUInt8(SIGNATURE_IDS.indexOf(id), 0);
+      signatureHeader.writeUInt8(vector instanceof Float32Array ? VECTOR_FLOAT32 : VECTOR_UINT32, 1);
+      signatureHeader.writeUInt16LE(vector.length, 2);
+      parts.push(signatureHeader, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength));
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+function unpackHashes(buffer: Buffer): FrameHash[] {
+  const hashes: FrameHash[] = [];
+  let offset = 0;
+  const readWords = (count: number) => {
+    const words = new Uint32Array(count);
+    for (let i = 0; i < count; i++) words[i] = buffer.readUInt32LE(offset + i * 4);
+    offset += count * 4;
+    return words;
+  };
+
+  while (offset < buffer.length) {
+    const frameNumber = buffer.readUInt32LE(offset);
+    const timestamp = buffer.readDoubleLE(offset + 4);
+    const flags = buffer.readUInt8(offset + 12);
+    const avgBrightness = buffer.readUInt8(offset + 13);
+    const signatureCount = buffer.readUInt8(offset + 14);
+    offset += 15;
+
+    const hash: FrameHash = { bits: readWords(HASH_WORDS) };
+    if (flags & FLAG_FRAME_NUMBER) hash.frameNumber = frameNumber;
+    if (flags & FLAG_TIMESTAMP) hash.timestamp = timestamp;
+    if (flags & FLAG_BRIGHTNESS) hash.avgBrightness = avgBrightness;
+    if (flags & FLAG_RAW_BITS) hash.rawBits = readWords(HASH_WORDS);
+
+    if (signatureCount > 0) {
+      hash.signatures = {};
+      for (let s = 0; s < signatureCount; s++) {
+        const id = SIGNATURE_IDS[buffer.readUInt8(offset)];
+        const kind = buffer.readUInt8(offset + 1);
+        const length = buffer.readUInt16LE(offset + 2);
+        offset += 4;
+        if (kind === VECTOR_FLOAT32) {
+          const vector = new Float32Array(length);
+          for (let i = 0; i < length; i++) vector[i] = buffer.readFloatLE(offset + i * 4);
+          offset += length * 4;
+          hash.signatures[id] = vector;
+        } else {
+          hash.signatures[id] = readWords(length);
+        }
+      }
+    }
+    hashes.push(hash);
+  }
+  return hashes;
+}
+
+function wordsToBuffer(words: Uint32Array): Buffer {
+  const buffer = Buffer.alloc(words.length * 4);
+  words.forEach((word, i) => buffer.writeUInt32LE(word, i * 4));
+  return buffer;
+}
@@ -2,44 +2,126 @@ import { db } from '@/lib/db';
 import { processingJobs } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { 
+  detectCrop,
+  extractAudioFingerprint,
   extractFramesWithSeeking,
   extractIFrames,
   extractRefinementFrames,
   getVideoMetadata,
-  REFINEMENT_WINDOW_SECONDS
+  REFINEMENT_WINDOW_SECONDS,
+  type CropDetection,
+  type ExtractedFrame
 } from './frame-extractor';
 import { 
+  describeNormalizationRescue,
+  frameDistance,
   generateFrameHashes, 
   hammingDistance, 
   hashSimilarity, 
   matchWithConfidence,
   refineWithNeighbors,
   type FrameHash,
-  type MatchResult 
+  type HashOptions,
+  type MatchOptions,
+  type MatchResult,
+  type NormalizationMode,
+  type NormalizedRect
 } from '../ai/perceptual-hash';
-import { FrameioClient, FrameioComment } from '@/lib/frameio-client';
+import { extraSignatureAlgorithms, isDHashOnly, type SignatureWeights } from '../ai/signatures';
+import { TargetHashIndex } from '../ai/hash-index';
+import { alignAudio } from '../ai/audio-fingerprint';
+import { computeVersionDiff, type VersionDiff } from './version-diff';
+import { resolveCommentRange, type CommentRange } from './comment-range';
+import { detectChangingRegions, mergeMasks } from './roi-masks';
+import { registerFrames, type FrameRegistration } from './frame-registration';
+import { IDENTITY_TRANSFORM, isIdentityTransform } from './geometry';
+import { commentRegion, verifyRegion, type RegionCheck } from './region-verification';
+import type { SourceVersion } from './version-merge';
+import {
+  classifyRateConversion,
+  fitRetimeModel,
+  mapSourceFrame,
+  type FramePair,
+  type RetimeModel
+} from './retime';
+import { loadFrameHashes, mediaFingerprint, saveFrameHashes, type MediaKey } from './frame-hash-cache';
+import { loadDetections, saveDetections, type MediaDetections } from './detection-cache';
+import { FrameioClient, FrameioComment, type FrameioFile } from '@/lib/frameio-client';
 
 export interface ProcessingOptions {
   accountId: string;
   sourceFileId: string;
   targetFileId: string;
   jobId: string;
+  versionDiff?: boolean; // Also hash every source frame and store an edit list (default: true)
+  signatureWeights?: SignatureWeights; // Signature algorithms and fusion weights (default: dHash only)
+  cropDetection?: boolean; // Detect letterbox/pillarbox bars and hash only the active picture (default: true)
+  normalization?: NormalizationMode; // Grade/exposure-invariant hashing for offline → graded online (default: none)
+  audioMatching?: boolean; // Use audio fingerprints to break ties on black/static shots (default: true)
+  masks?: NormalizedRect[]; // Overlay regions (timecode, bugs, subtitles) excluded from hashing
+  autoMasks?: boolean; // Also detect regions that change on every frame in either version (default: false)
+  hashCache?: boolean; // Reuse and store full-pass frame hashes per file (default: true)
 }
 
 export interface TargetVideoContext {
   videoUrl: string;
   metadata: { width: number; height: number; fps: number; duration: number };
   keyframeHashes: FrameHash[];
+  keyframeIndex: TargetHashIndex;
 }
 
 export interface CommentMatch {
   sourceComment: FrameioComment;
-  targetFrameNumber: number;
+  targetFrameNumber: number; // In the target's own frame numbering (target fps), never the source's
   targetTimestamp: number;
   hammingDistance: number;
   similarity: number;
   confidence?: 'high' | 'medium' | 'low';
   reason?: string;
+  range?: CommentRange; // Ranged comments: both endpoints matched independently
+  audio?: {             // Set when audio was consulted for an ambiguous placement
+    bitErrorRate: number;
+    runnerUpBitErrorRate: number;
+    decided: boolean;   // Audio chose the placement
+  };
+  geometry?: FrameRegistration; // Pinned/annotated comments: source → target frame transform for x/y and drawings
+  region?: RegionCheck;         // Pinned/annotated comments: did the area the note points at change?
+  origin?: SourceVersion;       // Multi-version merges: the version the note was written on
+  sourceFileId?: string;        // File the source comment was read from (lineage)
+  sourceTimestamp?: number;     // Source comment position in seconds (lineage)
+  candidates?: MatchCandidate[]; // Runner-up placements, best first (review)
+}
+
+export interface MatchCandidate {
+  frame: number;      // Target frame numbering
+  timestamp: number;  // Seconds on the target
+  similarity: number;
+}
+
+/**
+ * The Frame.io calls the processor makes (offline runs supply local files instead)
+ */
+export type FrameSource = Pick<FrameioClient, 'getFileWithMediaLinks' | 'getFileComments'>;
+
+/**
+ * Where progress and job metadata go (default: the processing_jobs row)
+ */
+export interface JobReporter {
+  progress(jobId: string, status: 'pending' | 'processing' | 'completed' | 'failed', progress: number, message: string): Promise<void>;
+  mergeMetadata(jobId: string, patch: Record<string, unknown>): Promise<void>;
+  saveVersionDiff(jobId: string, diff: VersionDiff): Promise<void>;
+}
+
+interface HashedMedia {
+  file: FrameioFile;
+  url: string;
+  metadata: { width: number; height: number; fps: number; frameCount: number; duration: number };
+}
+
+interface AmbiguousMatch {
+  match: CommentMatch;
+  sourceHash: FrameHash;
+  candidates: Array<{ frame: number; distance: number }>;
 }
 
 /**
@@ -60,10 +142,12 @@ export interface CommentMatch {
  * 6. Convert target timestamps to frame numbers for Frame.io API
  */
 export class FrameProcessor {
-  private client: FrameioClient;
+  private client: FrameSource;
+  private reporter?: JobReporter;
   
-  constructor(client: FrameioClient) {
+  constructor(client: FrameSource, reporter?: JobReporter) {
     this.client = client;
+    this.reporter = reporter;
   }
 
   /**
@@ -100,6 +184,7 @@ export class FrameProcessor {
       videoUrl: targetVideoUrl,
       metadata,
       keyframeHashes,
+      keyframeIndex: new TargetHashIndex(keyframeHashes),
     };
   }
 
@@ -147,30 +232,13 @@ export class FrameProcessor {
       const sourceHash = sourceHashes[i];
       const comment = comments[i];
       
-      let bestMatch = {
-        targetTimestamp: 0,
-        distance: Infinity,
-        similarity: 0,
-      };
-
-      for (const targetHash of targetContext.keyframeHashes) {
-        const distance = hammingDistance(sourceHash.hash, targetHash.hash);
-        const similarity = hashSimilarity(sourceHash.hash, targetHash.hash);
-
-        if (distance < bestMatch.distance) {
-          bestMatch = {
-            targetTimestamp: targetHash.timestamp!,
-            distance,
-            similarity,
-          };
-        }
-      }
+      const [nearest] = targetContext.keyframeIndex.nearest(sourceHash.bits, 1);
 
       coarseMatches.push({
         sourceComment: comment,
-        targetTimestamp: bestMatch.targetTimestamp,
-        hammingDistance: bestMatch.distance,
-        similarity: bestMatch.similarity,
+        targetTimestamp: nearest ? nearest.hash.timestamp! : 0,
+        hammingDistance: nearest ? nearest.distance : Infinity,
+        similarity: nearest ? hashSimilarity(sourceHash.bits, nearest.hash.bits) : 0,
       });
     }
     
@@ -209,8 +277,8 @@ export class FrameProcessor {
       
       for (const refHash of refinementHashes) {
         if (refHash.timestamp && refHash.timestamp >= windowStart && refHash.timestamp <= windowEnd) {
-          const distance = hammingDistance(sourceHash.hash, refHash.hash);
-          const similarity = hashSimilarity(sourceHash.hash, refHash.hash);
+          const distance = hammingDistance(sourceHash.bits, refHash.bits);
+          const similarity = hashSimilarity(sourceHash.bits, refHash.bits);
           
           if (distance < bestMatch.distance) {
             bestMatch = {
@@ -241,7 +309,22 @@ export class FrameProcessor {
    * Process source and target videos to match comments (legacy method - kept for compatibility)
    */
   async processVideos(options: ProcessingOptions): Promise<CommentMatch[]> {
-    const { accountId, sourceFileId, targetFileId, jobId } = options;
+    const {
+      accountId,
+      sourceFileId,
+      targetFileId,
+      jobId,
+      versionDiff = true,
+      signatureWeights,
+      cropDetection = true,
+      normalization = 'none',
+      audioMatching = true,
+      masks = [],
+      autoMasks = false,
+      hashCache = true,
+    } = options;
+    const hashOptions: HashOptions = { algorithms: extraSignatureAlgorithms(signatureWeights), normalization };
+    const matchOptions = { weights: signatureWeights };
 
     try {
       // ========== PHASE 1: SOURCE VIDEO PROCESSING (Frame-based with -ss seeking) ==========
@@ -265,6 +348,34 @@ export class FrameProcessor {
       const sourceMetadata = await getVideoMetadata(sourceVideoUrl);
       console.log(`Source video: ${sourceMetadata.width}x${sourceMetadata.height}, ${sourceMetadata.fps}fps, ${sourceMetadata.duration}s`);
 
+      // Target is resolved up front: mask detection must see both versions before any hashing
+      const targetFile = await this.client.getFileWithMediaLinks(accountId, targetFileId);
+      const targetVideoUrl = targetFile.media_links?.efficient?.download_url;
+      
+      if (!targetVideoUrl) {
+        throw new Error('Target file has no efficient proxy available');
+      }
+
+      const targetMetadata = await getVideoMetadata(targetVideoUrl);
+      console.log(`Target video: ${targetMetadata.width}x${targetMetadata.height}, ${targetMetadata.fps}fps, ${targetMetadata.duration}s`);
+
+      const sourceMedia: HashedMedia = { file: sourceFile, url: sourceVideoUrl, metadata: sourceMetadata };
+      const targetMedia: HashedMedia = { file: targetFile, url: targetVideoUrl, metadata: targetMetadata };
+
+      // Neutralise overlays that differ between versions (same masks on both sides)
+      const hashMasks = autoMasks
+        ? await this.detectHashMasks(jobId, masks, [sourceMedia, targetMedia], hashCache)
+        : masks;
+      if (hashMasks.length > 0) {
+        console.log(`🎭 Masking ${hashMasks.length} overlay regions before hashing`);
+      }
+
+      // Hash only the active picture so added/removed mattes don't swamp similarity
+      const sourceCrop = cropDetection
+        ? await this.cachedDetection(sourceMedia, 'crop', hashCache, () => detectCrop(sourceVideoUrl))
+        : null;
+      const sourceHashOptions: HashOptions = { ...hashOptions, masks: hashMasks, crop: sourceCrop?.rect };
+
       // Extract frames at comment timestamps using -ss seeking (parallel HTTP range requests)
       await this.updateJobProgress(jobId, 'processing', 0.3, `Extracting ${sourceComments.length} frames from source...`);
       const commentFrameNumbers = sourceComments
@@ -284,35 +395,52 @@ export class FrameProcessor {
 
       // Generate hashes for source frames
       await this.updateJobProgress(jobId, 'processing', 0.4, 'Generating hashes for source frames...');
-      const sourceHashes = await generateFrameHashes(sourceFrameData);
+      const sourceHashes = await generateFrameHashes(sourceFrameData, sourceHashOptions);
       console.log(`Generated ${sourceHashes.length} hashes for source frames`);
 
       // ========== PHASE 2: TARGET VIDEO PROCESSING (ALL frames for frame-perfect matching) ==========
       
       await this.updateJobProgress(jobId, 'processing', 0.6, 'Processing target video...');
-      const targetFile = await this.client.getFileWithMediaLinks(accountId, targetFileId);
-      const targetVideoUrl = targetFile.media_links?.efficient?.download_url;
-      
-      if (!targetVideoUrl) {
-        throw new Error('Target file has no efficient proxy available');
+      const targetCrop = cropDetection
+        ? await this.cachedDetection(targetMedia, 'crop', hashCache, () => detectCrop(targetVideoUrl))
+        : null;
+      const targetHashOptions: HashOptions = { ...hashOptions, masks: hashMasks, crop: targetCrop?.rect };
+      if (sourceCrop || targetCrop) {
+        await this.recordCropDetection(jobId, sourceCrop, targetCrop);
       }
 
-      const targetMetadata = await getVideoMetadata(targetVideoUrl);
-      console.log(`Target video: ${targetMetadata.width}x${targetMetadata.height}, ${targetMetadata.fps}fps, ${targetMetadata.duration}s`);
-
       // Extract ALL frames from target with inline hashing (much faster than I-frames + refinement)
       // Using decimation factor of 1 = every frame for frame-perfect accuracy
       // Frames are hashed inline during extraction to minimize memory usage (~2MB vs 4.5GB)
       await this.updateJobProgress(jobId, 'processing', 0.7, 'Extracting and hashing all frames from target...');
-      const { extractAllFrames } = await import('./frame-extractor');
-      const targetHashes = await extractAllFrames(
-        targetVideoUrl,
-        targetMetadata.fps,
-        1 // Extract every frame for maximum accuracy
+      const targetHashes = await this.hashAllFrames(
+        targetMedia,
+        targetHashOptions,
+        hashCache
       );
       console.log(`Extracted and hashed ${targetHashes.length} frames from target`);
       console.log(`   Target frame range: ${targetHashes[0].frameNumber} to ${targetHashes[targetHashes.length - 1].frameNumber}`);
 
+      // Build the nearest-neighbour index once, then query it for every comment
+      const targetIndex = new TargetHashIndex(targetHashes);
+
+      // ========== PHASE 2b: VERSION DIFF (full source pass, non-fatal) ==========
+      
+      // Speed-changing conforms (23.976 → 25) shift time, not frames
+      const { nominalRate } = classifyRateConversion(sourceMetadata.fps, targetMetadata.fps);
+      let diff: VersionDiff | null = null;
+      if (versionDiff) {
+        diff = await this.saveVersionDiff(
+          jobId,
+          sourceMedia,
+          { ...sourceHashOptions, algorithms: [] }, // Diff aligns on dHash only
+          hashCache,
+          targetIndex,
+          targetMetadata.fps,
+          nominalRate
+        );
+      }
+
       // ========== PHASE 3: CONFIDENCE-BASED MATCHING WITH OPTIONAL REFINEMENT ==========
       
       await this.updateJobProgress(jobId, 'processing', 0.8, 'Matching with confidence scoring...');
@@ -323,19 +451,25 @@ export class FrameProcessor {
         result: MatchResult;
       }> = [];
       const certainMatches: CommentMatch[] = [];
+      const skippedRanged: FrameioComment[] = [];
+      const ambiguousMatches: AmbiguousMatch[] = [];
       let skippedCount = 0;
       
       // Phase 3a: Initial confidence-based matching
       console.log(`\n📊 Phase 3a: Confidence-Based Matching (${sourceComments.length} comments)`);
+      const indexStatsBefore = targetIndex.stats;
       for (let i = 0; i < sourceComments.length; i++) {
         const comment = sourceComments[i];
         const sourceHash = sourceHashes[i];
         
-        const matchResult = matchWithConfidence(sourceHash, targetHashes, targetMetadata.duration);
+        const matchResult = matchWithConfidence(sourceHash, targetIndex, targetMetadata.duration, matchOptions);
         
         if (matchResult.action === 'skip') {
           console.log(`⏭️  Skip "${comment.text?.substring(0, 30)}..." - ${matchResult.reason}`);
           skippedCount++;
+          if ((comment.duration ?? 0) > 0) {
+            skippedRanged.push(comment); // Out point may still be on the target
+          }
           continue;
         }
         
@@ -344,25 +478,37 @@ export class FrameProcessor {
         } else if (matchResult.action === 'transfer') {
           // High or low confidence match, transfer immediately
           const targetFrameNumber = matchResult.targetFrame!;
-          const targetHash = targetHashes.find(h => h.frameNumber === targetFrameNumber);
-          const distance = hammingDistance(sourceHash.hash, targetHash!.hash);
+          const targetHash = targetIndex.getByFrame(targetFrameNumber);
+          const distance = frameDistance(sourceHash, targetHash!, signatureWeights);
           const similarity = 1 - (distance / 1024);
           
           console.log(`${matchResult.confidence === 'high' ? '✓' : '?'}  "${comment.text?.substring(0, 30)}..." F.io#${comment.timestamp} → target#${targetFrameNumber}@${targetHash!.timestamp!.toFixed(2)}s (${(similarity * 100).toFixed(1)}% ${matchResult.confidence})`);
           
-          certainMatches.push({
+          const match: CommentMatch = {
             sourceComment: comment,
             targetFrameNumber,
             targetTimestamp: targetHash!.timestamp!,
             hammingDistance: distance,
             similarity,
             confidence: matchResult.confidence as 'high' | 'low', // Type assertion safe here since action === 'transfer'
-            reason: matchResult.reason,
-          });
+            reason: withNormalizationNote(matchResult.reason, sourceHash, targetHash!),
+          };
+          certainMatches.push(match);
+          if (matchResult.confidence === 'low' && matchResult.candidates) {
+            ambiguousMatches.push({ match, sourceHash, candidates: matchResult.candidates });
+          }
         }
       }
       
       console.log(`\n✅ Phase 3a Complete: ${certainMatches.length} certain | ${uncertainMatches.length} uncertain | ${skippedCount} skipped\n`);
+
+      // How often matching needed a linear scan instead of the index (weak matches, fused weights)
+      const hashIndex = {
+        queries: targetIndex.stats.queries - indexStatsBefore.queries,
+        fullScans: targetIndex.stats.fullScans - indexStatsBefore.fullScans,
+      };
+      console.log(`📇 Hash index: ${hashIndex.queries} queries, ${hashIndex.fullScans} full scans`);
+      await this.mergeJobMetadata(jobId, { hashIndex });
       
       // Phase 3b: Temporal refinement for uncertain matches
       if (uncertainMatches.length > 0) {
@@ -383,7 +529,7 @@ export class FrameProcessor {
           8 // More parallel since batching
         );
         
-        const allNeighborHashes = await generateFrameHashes(allNeighborData);
+        const allNeighborHashes = await generateFrameHashes(allNeighborData, sourceHashOptions);
         
         // Refine each uncertain match
         for (let i = 0; i < uncertainMatches.length; i++) {
@@ -393,24 +539,29 @@ export class FrameProcessor {
           const refined = refineWithNeighbors(
             neighborHashes,
             uncertain.result.candidates!,
-            targetHashes
+            targetIndex,
+            matchOptions
           );
           
           if (refined.action === 'transfer') {
-            const targetHash = targetHashes.find(h => h.frameNumber === refined.targetFrame!);
-            const distance = hammingDistance(uncertain.sourceHash.hash, targetHash!.hash);
+            const targetHash = targetIndex.getByFrame(refined.targetFrame!);
+            const distance = frameDistance(uncertain.sourceHash, targetHash!, signatureWeights);
             const similarity = 1 - (distance / 1024);
             const emoji = refined.confidence === 'high' ? '✓' : refined.confidence === 'medium' ? '~' : '?';
             
-            certainMatches.push({
+            const match: CommentMatch = {
               sourceComment: uncertain.comment,
               targetFrameNumber: refined.targetFrame!,
               targetTimestamp: targetHash!.timestamp!,
               hammingDistance: distance,
               similarity,
               confidence: refined.confidence as 'high' | 'medium' | 'low', // Type assertion safe since action === 'transfer'
-              reason: refined.reason,
-            });
+              reason: withNormalizationNote(refined.reason, uncertain.sourceHash, targetHash!),
+            };
+            certainMatches.push(match);
+            if (refined.confidence === 'low' && refined.candidates) {
+              ambiguousMatches.push({ match, sourceHash: uncertain.sourceHash, candidates: refined.candidates });
+            }
             
             console.log(`  ${emoji} Refined "${uncertain.comment.text?.substring(0, 30)}..." F.io#${uncertain.comment.timestamp} → target#${refined.targetFrame}@${targetHash!.timestamp!.toFixed(2)}s (${(similarity * 100).toFixed(1)}% ${refined.confidence})`);
           }
@@ -418,6 +569,83 @@ export class FrameProcessor {
         console.log(`\n✅ Phase 3b Complete: ${certainMatches.length} total matches\n`);
       }
       
+      // Phase 3c: Audio tiebreak for ambiguous (black/static) placements
+      if (audioMatching && ambiguousMatches.length > 0) {
+        await this.resolveWithAudio(
+          jobId,
+          ambiguousMatches,
+          sourceVideoUrl,
+          targetVideoUrl,
+          sourceMetadata.fps,
+          targetMetadata.fps,
+          targetIndex,
+          signatureWeights
+        );
+      }
+
+      // Phase 3d: Retime-aware placement (fps conversion, pulldown, speed ramps)
+      const sourceHashByComment = new Map(sourceComments.map((c, i) => [c, sourceHashes[i]]));
+      const retimeModel = fitRetimeModel(
+        collectRetimePairs(certainMatches, diff),
+        sourceMetadata.fps,
+        targetMetadata.fps
+      );
+      let snappedCount = 0;
+      for (const match of certainMatches) {
+        const sourceHash = sourceHashByComment.get(match.sourceComment)!;
+        if (applyRetime(match, sourceHash, retimeModel, targetIndex, signatureWeights)) {
+          snappedCount++;
+        }
+      }
+      if (snappedCount > 0) {
+        console.log(`⏱️  Retime: snapped ${snappedCount} matches to the fitted time map`);
+      }
+      // Phase 3e: Ranged comments - match out points independently
+      const rangedComments = [
+        ...certainMatches.map(m => m.sourceComment).filter(c => (c.duration ?? 0) > 0),
+        ...skippedRanged,
+      ];
+      if (rangedComments.length > 0) {
+        const rescued = await this.matchCommentRanges(
+          rangedComments,
+          certainMatches,
+          sourceVideoUrl,
+          sourceMetadata.fps,
+          sourceHashOptions,
+          targetIndex,
+          targetMetadata.duration,
+          retimeModel,
+          diff,
+          matchOptions
+        );
+        skippedCount -= rescued;
+      }
+
+      // Phase 3f: Spatial geometry - estimate reframes for comments with a pin or drawing
+      const spatialMatches = certainMatches.filter(m => hasSpatialData(m.sourceComment));
+      if (spatialMatches.length > 0) {
+        await this.registerSpatialMatches(
+          jobId,
+          spatialMatches,
+          sourceFrameData,
+          targetVideoUrl,
+          targetMetadata.fps,
+          sourceMetadata.width / sourceMetadata.height
+        );
+      }
+
+      await this.mergeJobMetadata(jobId, {
+        retime: {
+          conversion: retimeModel.conversion,
+          sourceFps: retimeModel.sourceFps,
+          targetFps: retimeModel.targetFps,
+          nominalRate: retimeModel.nominalRate,
+          segments: retimeModel.segments.length,
+          speedRamps: retimeModel.segments.filter(s => s.isSpeedRamp).length,
+          snapped: snappedCount,
+        },
+      });
+      
       // Final results
       console.log(`\n📊 Final Matching Results:`);
       console.log(`   Total matched: ${certainMatches.length}`);
@@ -428,6 +656,16 @@ export class FrameProcessor {
 
       await this.updateJobProgress(jobId, 'processing', 0.9, `Matched ${certainMatches.length} comments`);
       console.log(`✅ Frame processing complete: ${certainMatches.length} matches found\n`);
+
+      // Where each note sat on the source (lineage) and the placements it lost to (review)
+      for (const match of certainMatches) {
+        match.sourceFileId = sourceFileId;
+        match.sourceTimestamp = match.sourceComment.timestamp! / sourceMetadata.fps;
+        const sourceHash = sourceHashByComment.get(match.sourceComment);
+        if (sourceHash) {
+          match.candidates = runnerUpCandidates(match, sourceHash, targetIndex, signatureWeights, targetMetadata.fps);
+        }
+      }
       
       return certainMatches;
 
@@ -464,8 +702,8 @@ export class FrameProcessor {
       };
 
       for (const targetHash of targetHashes) {
-        const distance = hammingDistance(sourceHash.hash, targetHash.hash);
-        const similarity = hashSimilarity(sourceHash.hash, targetHash.hash);
+        const distance = hammingDistance(sourceHash.bits, targetHash.bits);
+        const similarity = hashSimilarity(sourceHash.bits, targetHash.bits);
 
         if (distance < bestMatch.distance) {
           bestMatch = {
@@ -498,6 +736,396 @@ export class FrameProcessor {
     return matches;
   }
 
+  /**
+   * Fingerprint both audio tracks and let audio pick among visually ambiguous candidates
+   * Audio decides only when it aligns clearly (low bit error rate, clear margin over
+   * any other alignment) and the picture at that position is still plausible.
+   * Failures (e.g. no audio track) are logged but never fail the job.
+   */
+  private async resolveWithAudio(
+    jobId: string,
+    ambiguous: AmbiguousMatch[],
+    sourceVideoUrl: string,
+    targetVideoUrl: string,
+    sourceFps: number,
+    targetFps: number,
+    targetIndex: TargetHashIndex,
+    weights?: SignatureWeights
+  ): Promise<void> {
+    const MAX_BIT_ERROR_RATE = 0.35;  // Same audio (unrelated audio sits around 0.5)
+    const MIN_MARGIN = 0.05;          // Runner-up alignment must be clearly worse
+    const MAX_PICTURE_PENALTY = 50;   // Audio-chosen frame may be this many bits worse than the visual best
+
+    console.log(`\n📊 Phase 3c: Audio Tiebreak (${ambiguous.length} ambiguous placements)`);
+    try {
+      await this.updateJobProgress(jobId, 'processing', 0.87, `Fingerprinting audio for ${ambiguous.length} ambiguous matches...`);
+      const sourceAudio = await extractAudioFingerprint(sourceVideoUrl);
+      const targetAudio = await extractAudioFingerprint(targetVideoUrl);
+
+      const decisions: Array<{ commentId: string; targetFrame: number; bitErrorRate: number; runnerUpBitErrorRate: number }> = [];
+      for (const { match, sourceHash, candidates } of ambiguous) {
+        const sourceTime = match.sourceComment.timestamp! / sourceFps;
+        const alignment = alignAudio(
+          sourceAudio,
+          sourceTime,
+          targetAudio,
+          candidates.map(c => c.frame / targetFps)
+        );
+        if (!alignment) continue;
+
+        const decisive = alignment.bitErrorRate <= MAX_BIT_ERROR_RATE &&
+          alignment.runnerUpBitErrorRate - alignment.bitErrorRate >= MIN_MARGIN;
+        match.audio = {
+          bitErrorRate: alignment.bitErrorRate,
+          runnerUpBitErrorRate: alignment.runnerUpBitErrorRate,
+          decided: false,
+        };
+        if (!decisive) continue;
+
+        const audioFrame = Math.round(alignment.targetTime * targetFps);
+        const audioHash = targetIndex.getByFrame(audioFrame);
+        if (!audioHash) continue;
+        const distance = frameDistance(sourceHash, audioHash, weights);
+        if (distance > match.hammingDistance + MAX_PICTURE_PENALTY) continue;
+
+        const audioNote = `audio_decided (BER ${alignment.bitErrorRate.toFixed(3)} vs ${alignment.runnerUpBitErrorRate.toFixed(3)} runner-up)`;
+        console.log(`  🔊 "${match.sourceComment.text?.substring(0, 30)}..." target#${match.targetFrameNumber} → #${audioFrame} (${audioNote})`);
+
+        match.targetFrameNumber = audioFrame;
+        match.targetTimestamp = audioHash.timestamp!;
+        match.hammingDistance = distance;
+        match.similarity = 1 - (distance / 1024);
+        match.reason = `${match.reason ?? ''}; ${audioNote}`;
+        match.audio.decided = true;
+        decisions.push({
+          commentId: match.sourceComment.id,
+          targetFrame: audioFrame,
+          bitErrorRate: alignment.bitErrorRate,
+          runnerUpBitErrorRate: alignment.runnerUpBitErrorRate,
+        });
+      }
+
+      console.log(`\n✅ Phase 3c Complete: audio decided ${decisions.length}/${ambiguous.length} ambiguous placements\n`);
+      await this.mergeJobMetadata(jobId, {
+        audio: { ambiguous: ambiguous.length, decided: decisions.length, decisions },
+      });
+    } catch (error) {
+      console.warn('⚠️  Audio tiebreak failed (keeping visual placements):', error);
+    }
+  }
+
+  /**
+   * Match the out point of every ranged comment and resolve the target range
+   * Comments whose in point was skipped are added back when their out point survived.
+   *
+   * @returns Number of previously skipped comments placed via their out point
+   */
+  private async matchCommentRanges(
+    rangedComments: FrameioComment[],
+    matches: CommentMatch[],
+    sourceVideoUrl: string,
+    sourceFps: number,
+    sourceHashOptions: HashOptions,
+    targetIndex: TargetHashIndex,
+    targetDuration: number,
+    retimeModel: RetimeModel,
+    diff: VersionDiff | null,
+    matchOptions: MatchOptions
+  ): Promise<number> {
+    console.log(`\n📊 Phase 3e: Ranged Comments (${rangedComments.length} out points)`);
+
+    const outFrames = rangedComments.map(c => c.timestamp! + c.duration!);
+    const outData = await extractFramesWithSeeking(sourceVideoUrl, outFrames, sourceFps, 4);
+    const outHashes = await generateFrameHashes(outData, sourceHashOptions);
+    const outHashByFrame = new Map(outHashes.map(h => [h.frameNumber, h]));
+
+    let rescued = 0;
+    for (const comment of rangedComments) {
+      const sourceOutFrame = comment.timestamp! + comment.duration!;
+      const outHash = outHashByFrame.get(sourceOutFrame);
+      const outTarget = outHash
+        ? matchRangeEndpoint(outHash, sourceOutFrame, targetIndex, targetDuration, retimeModel, matchOptions)
+        : null;
+
+      const existing = matches.find(m => m.sourceComment === comment);
+      const range = resolveCommentRange({
+        sourceInFrame: comment.timestamp!,
+        sourceOutFrame,
+        inTarget: existing ? existing.targetFrameNumber : null,
+        outTarget,
+        retime: retimeModel,
+        diff,
+      });
+      if (!range) continue;
+
+      const label = `"${comment.text?.substring(0, 30)}..." F.io#${range.sourceInFrame}-${range.sourceOutFrame} → target#${range.targetInFrame}-${range.targetOutFrame}`;
+      console.log(`  ${range.outcome === 'intact' ? '↔️ ' : '✂️ '} ${label} (${range.detail})`);
+
+      if (existing) {
+        existing.range = range;
+        continue;
+      }
+
+      // In point was cut but the out point survived: place the surviving part
+      const targetHash = targetIndex.getByFrame(range.targetOutFrame);
+      if (!outHash || !targetHash) continue;
+      const distance = frameDistance(outHash, targetHash, matchOptions.weights);
+      matches.push({
+        sourceComment: comment,
+        targetFrameNumber: range.targetInFrame,
+        targetTimestamp: range.targetInFrame / retimeModel.targetFps,
+        hammingDistance: distance,
+        similarity: 1 - (distance / 1024),
+        confidence: 'low',
+        reason: `out_point_only (${range.detail})`,
+        range,
+      });
+      rescued++;
+    }
+
+    console.log(`\n✅ Phase 3e Complete: ${rangedComments.length} ranges resolved, ${rescued} placed via out point\n`);
+    return rescued;
+  }
+
+  /**
+   * Estimate the source → target transform at every pinned or annotated match
+   * Pins and drawings are remapped with it at transfer time; unreliable estimates
+   * (flat or heavily changed frames) fall back to the identity transform.
+   * The area each note points at is then compared patch-to-patch, so a shot
+   * updated only locally (e.g. a VFX fix) is flagged even on a perfect frame match.
+   * Failures are logged but never fail the job.
+   */
+  private async registerSpatialMatches(
+    jobId: string,
+    matches: CommentMatch[],
+    sourceFrameData: ExtractedFrame[],
+    targetVideoUrl: string,
+    targetFps: number,
+    sourceAspectRatio: number
+  ): Promise<void> {
+    console.log(`\n📊 Phase 3f: Spatial Geometry (${matches.length} pinned/annotated comments)`);
+    try {
+      const sourceBuffers = new Map(sourceFrameData.map(f => [f.frameNumber, f.buffer]));
+      const targetFrames = await extractFramesWithSeeking(
+        targetVideoUrl,
+        [...new Set(matches.map(m => m.targetFrameNumber))],
+        targetFps,
+        4
+      );
+      const targetBuffers = new Map(targetFrames.map(f => [f.frameNumber, f.buffer]));
+
+      const reframed: Array<{ commentId: string; transform: FrameRegistration['transform']; correlation: number }> = [];
+      const regionChanges: Array<{ commentId: string; changeScore: number }> = [];
+      for (const match of matches) {
+        const sourceBuffer = sourceBuffers.get(match.sourceComment.timestamp);
+        const targetBuffer = targetBuffers.get(match.targetFrameNumber);
+        if (!sourceBuffer || !targetBuffer) continue;
+
+        const registration = await registerFrames(sourceBuffer, targetBuffer);
+        match.geometry = registration.reliable
+          ? registration
+          : { ...registration, transform: IDENTITY_TRANSFORM };
+        if (registration.reliable && !isIdentityTransform(registration.transform)) {
+          const { a, d, tx, ty } = registration.transform;
+          console.log(`  📐 "${match.sourceComment.text?.substring(0, 30)}..." reframed: scale ${a.toFixed(3)}x${d.toFixed(3)}, offset (${tx.toFixed(3)}, ${ty.toFixed(3)}), NCC ${registration.correlation.toFixed(2)}`);
+          reframed.push({ commentId: match.sourceComment.id, transform: registration.transform, correlation: registration.correlation });
+        }
+
+        const sourceRegion = commentRegion(match.sourceComment, sourceAspectRatio);
+        if (sourceRegion) {
+          match.region = await verifyRegion(sourceBuffer, targetBuffer, sourceRegion, match.geometry.transform) ?? undefined;
+          if (match.region?.changed) {
+            console.log(`  🔶 "${match.sourceComment.text?.substring(0, 30)}..." region changed (score ${match.region.changeScore.toFixed(2)})`);
+            regionChanges.push({ commentId: match.sourceComment.id, changeScore: match.region.changeScore });
+          }
+        }
+      }
+
+      console.log(`\n✅ Phase 3f Complete: ${reframed.length}/${matches.length} spatial frames reframed, ${regionChanges.length} regions changed\n`);
+      await this.mergeJobMetadata(jobId, {
+        spatialGeometry: { comments: matches.length, reframed: reframed.length, transforms: reframed },
+        regionVerification: { checked: matches.filter(m => m.region).length, changed: regionChanges.length, changes: regionChanges },
+      });
+    } catch (error) {
+      console.warn('⚠️  Spatial geometry failed (pins and drawings transfer unchanged):', error);
+    }
+  }
+
+  /**
+   * Hash every source frame, align it against the target and store the edit list on the job
+   * Failures are logged but never fail the job (comment transfer does not depend on the diff)
+   */
+  private async saveVersionDiff(
+    jobId: string,
+    source: HashedMedia,
+    sourceHashOptions: HashOptions,
+    hashCache: boolean,
+    targetIndex: TargetHashIndex,
+    targetFps: number,
+    rate: number
+  ): Promise<VersionDiff | null> {
+    try {
+      await this.updateJobProgress(jobId, 'processing', 0.75, 'Comparing versions...');
+      const allSourceHashes = await this.hashAllFrames(source, sourceHashOptions, hashCache);
+
+      const diff = computeVersionDiff(allSourceHashes, targetIndex, source.metadata.fps, targetFps, rate);
+
+      if (this.reporter) {
+        await this.reporter.saveVersionDiff(jobId, diff);
+      } else {
+        await db
+          .update(processingJobs)
+          .set({ versionDiff: diff })
+          .where(eq(processingJobs.id, jobId));
+      }
+      return diff;
+    } catch (error) {
+      console.warn('⚠️  Version diff failed (continuing with comment matching):', error);
+      return null;
+    }
+  }
+
+  /**
+   * Hash every frame of a file, reusing the hashes stored by an earlier job when the
+   * media and hash settings match (cache errors fall back to hashing, never fail the job)
+   */
+  private async hashAllFrames(media: HashedMedia, hashOptions: HashOptions, useCache: boolean): Promise<FrameHash[]> {
+    const key = mediaKey(media);
+
+    if (useCache) {
+      try {
+        const cached = await loadFrameHashes(key, hashOptions);
+        if (cached) {
+          console.log(`♻️  Frame hash cache hit for ${media.file.name}: ${cached.length.toLocaleString()} frames`);
+          return cached;
+        }
+        console.log(`🆕 Frame hash cache miss for ${media.file.name}, hashing every frame`);
+      } catch (error) {
+        console.warn('⚠️  Frame hash cache lookup failed (hashing every frame):', error);
+      }
+    }
+
+    const { extractAllFrames } = await import('./frame-extractor');
+    const hashes = await extractAllFrames(
+      media.url,
+      media.metadata.fps,
+      1, // Extract every frame for maximum accuracy
+      hashOptions
+    );
+
+    if (useCache) {
+      try {
+        await saveFrameHashes(key, hashOptions, hashes);
+      } catch (error) {
+        console.warn('⚠️  Could not store frame hashes (next job will re-hash):', error);
+      }
+    }
+    return hashes;
+  }
+
+  /**
+   * Run a per-file detection, or reuse the result stored for the same media by an earlier job
+   * (cache errors fall back to detecting, never fail the job)
+   */
+  private async cachedDetection<K extends keyof MediaDetections>(
+    media: HashedMedia,
+    kind: K,
+    useCache: boolean,
+    detect: () => Promise<NonNullable<MediaDetections[K]>>
+  ): Promise<NonNullable<MediaDetections[K]>> {
+    const key = mediaKey(media);
+
+    if (useCache) {
+      try {
+        const cached = (await loadDetections(key))[kind];
+        if (cached) {
+          console.log(`♻️  Detection cache hit for ${media.file.name}: ${kind}`);
+          return cached;
+        }
+      } catch (error) {
+        console.warn(`⚠️  Detection cache lookup failed (detecting ${kind}):`, error);
+      }
+    }
+
+    const detected = await detect();
+
+    if (useCache) {
+      try {
+        await saveDetections(key, { [kind]: detected });
+      } catch (error) {
+        console.warn(`⚠️  Could not store ${kind} detection (next job will detect again):`, error);
+      }
+    }
+    return detected;
+  }
+
+  /**
+   * Combine job masks with regions that change on every frame in any of the videos
+   * Detection failures fall back to the job masks alone.
+   */
+  private async detectHashMasks(
+    jobId: string,
+    masks: NormalizedRect[],
+    videos: HashedMedia[],
+    useCache: boolean
+  ): Promise<NormalizedRect[]> {
+    try {
+      await this.updateJobProgress(jobId, 'processing', 0.25, 'Detecting burned-in overlays...');
+      const detected: NormalizedRect[][] = [];
+      for (const media of videos) {
+        const detect = () => detectChangingRegions(media.url, media.metadata.fps, media.metadata.duration);
+        detected.push(await this.cachedDetection(media, 'changingRegions', useCache, detect));
+      }
+
+      const autoMasks = mergeMasks(...detected);
+      console.log(`🎭 Auto-detected ${autoMasks.length} always-changing regions`);
+      await this.mergeJobMetadata(jobId, { autoMasks });
+      return mergeMasks(masks, autoMasks);
+    } catch (error) {
+      console.warn('⚠️  Overlay detection failed (using job masks only):', error);
+      return masks;
+    }
+  }
+
+  /**
+   * Record detected active-picture rectangles in job metadata for diagnostics
+   */
+  private async recordCropDetection(
+    jobId: string,
+    source: CropDetection | null,
+    target: CropDetection | null
+  ): Promise<void> {
+    const summarize = (crop: CropDetection | null) => crop && {
+      isCropped: crop.isCropped,
+      pixels: crop.pixels,
+      frame: { width: crop.frameWidth, height: crop.frameHeight },
+      samples: crop.samples,
+    };
+
+    await this.mergeJobMetadata(jobId, {
+      cropDetection: { source: summarize(source), target: summarize(target) },
+    });
+  }
+
+  /**
+   * Shallow-merge fields into the job's JSON metadata
+   */
+  private async mergeJobMetadata(jobId: string, patch: Record<string, unknown>): Promise<void> {
+    if (this.reporter) return this.reporter.mergeMetadata(jobId, patch);
+
+    const job = await db.query.processingJobs.findFirst({
+      where: eq(processingJobs.id, jobId),
+    });
+    const metadata = job?.metadata
+      ? (typeof job.metadata === 'string' ? JSON.parse(job.metadata) : job.metadata)
+      : {};
+
+    await db
+      .update(processingJobs)
+      .set({ metadata: JSON.stringify({ ...metadata, ...patch }) })
+      .where(eq(processingJobs.id, jobId));
+  }
+
   /**
    * Update job progress in database
    */
@@ -507,6 +1135,8 @@ export class FrameProcessor {
     progress: number,
     message: string
   ): Promise<void> {
+    if (this.reporter) return this.reporter.progress(jobId, status, progress, message);
+
     await db
       .update(processingJobs)
       .set({
@@ -518,4 +1148,160 @@ export class FrameProcessor {
 
     console.log(`[${(progress * 100).toFixed(0)}%] ${message}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Cache key for a file's media (frame hashes and detections)
+ */
+function mediaKey(media: HashedMedia): MediaKey {
+  return {
+    fileId: media.file.id,
+    fileName: media.file.name,
+    fingerprint: mediaFingerprint(media.file, media.metadata),
+  };
+}
+
+/**
+ * Comments with an on-screen position (pin) or a drawing need the reframe estimate
+ */
+function hasSpatialData(comment: FrameioComment): boolean {
+  return Boolean(comment.annotation) || (typeof comment.x === 'number' && typeof comment.y === 'number');
+}
+
+/**
+ * Append a note to the match reason when only the normalized hashes matched
+ */
+function withNormalizationNote(reason: string, sourceHash: FrameHash, targetHash: FrameHash): string {
+  const rescue = describeNormalizationRescue(sourceHash, targetHash);
+  return rescue ? `${reason}; ${rescue}` : reason;
+}
+
+// Mapped frame may be this much worse than the visual best and still win
+// (pulldown duplicates and blended frames differ by a few bits at most)
+const RETIME_TIE_BITS = 24;
+
+/**
+ * Match a single range endpoint without temporal refinement
+ * Ambiguous candidates are resolved by the time map when it covers the frame.
+ *
+ * @returns Target frame number, or null if the endpoint is not on the target
+ */
+function matchRangeEndpoint(
+  sourceHash: FrameHash,
+  sourceFrame: number,
+  targetIndex: TargetHashIndex,
+  targetDuration: number,
+  model: RetimeModel,
+  options: MatchOptions
+): number | null {
+  const result = matchWithConfidence(sourceHash, targetIndex, targetDuration, options);
+  if (result.action === 'skip') return null;
+  if (result.action === 'transfer' || !result.candidates?.length) return result.targetFrame ?? null;
+
+  const mapped = mapSourceFrame(model, sourceFrame);
+  if (!mapped) return result.targetFrame ?? null;
+  return result.candidates.reduce((prev, curr) =>
+    Math.abs(curr.frame - mapped.targetFrame) < Math.abs(prev.frame - mapped.targetFrame) ? curr : prev
+  ).frame;
+}
+
+/**
+ * Anchor pairs for the time map: diff runs are frame-accurate over whole shots,
+ * comment matches add points inside shots the diff didn't cover
+ */
+function collectRetimePairs(matches: CommentMatch[], diff: VersionDiff | null): FramePair[] {
+  const pairs: FramePair[] = [];
+
+  for (const segment of diff?.segments ?? []) {
+    if ((segment.type !== 'kept' && segment.type !== 'moved') || !segment.source || !segment.target) continue;
+    pairs.push(
+      { sourceFrame: segment.source.startFrame, targetFrame: segment.target.startFrame, weight: 4 },
+      { sourceFrame: segment.source.endFrame, targetFrame: segment.target.endFrame, weight: 4 }
+    );
+  }
+
+  for (const match of matches) {
+    if (match.confidence === 'low' || match.sourceComment.timestamp === undefined) continue;
+    pairs.push({
+      sourceFrame: match.sourceComment.timestamp,
+      targetFrame: match.targetFrameNumber,
+      weight: match.confidence === 'high' ? 2 : 1,
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Move a match to the frame the time map predicts when the visual match can't
+ * tell them apart (repeated pulldown frames, static shots, ramped shots)
+ * Only segments anchored by more than one pair are trusted over the hash match,
+ * and placements already decided by audio are left alone.
+ *
+ * @returns true if the match was moved
+ */
+function applyRetime(
+  match: CommentMatch,
+  sourceHash: FrameHash,
+  model: RetimeModel,
+  targetIndex: TargetHashIndex,
+  weights?: SignatureWeights
+): boolean {
+  if (match.sourceComment.timestamp === undefined || match.audio?.decided) return false;
+
+  const mapped = mapSourceFrame(model, match.sourceComment.timestamp);
+  if (!mapped || mapped.segment.pairCount < 2 || mapped.targetFrame === match.targetFrameNumber) {
+    return false;
+  }
+
+  const mappedHash = targetIndex.getByFrame(mapped.targetFrame);
+  if (!mappedHash) return false;
+
+  const distance = frameDistance(sourceHash, mappedHash, weights);
+  if (distance > match.hammingDistance + RETIME_TIE_BITS) return false;
+
+  const rampNote = mapped.segment.isSpeedRamp ? ', speed ramp' : '';
+  match.reason = `${match.reason ?? ''}; retime_snapped (${model.conversion}${rampNote}, rate ${mapped.segment.rate.toFixed(4)}, ` +
+    `target#${match.targetFrameNumber} → #${mapped.targetFrame})`;
+  match.targetFrameNumber = mapped.targetFrame;
+  match.targetTimestamp = mappedHash.timestamp!;
+  match.hammingDistance = distance;
+  match.similarity = 1 - (distance / 1024);
+  return true;
+}
+
+const RUNNER_UP_COUNT = 3;
+const RUNNER_UP_POOL = 60; // Nearest frames scanned; neighbours of the winner fill most of it
+
+/**
+ * Next-best target placements for a match, for manual review
+ * Frames within half a second of the chosen frame (or of a runner-up already
+ * taken) are the same shot position, not an alternative. dHash-only pools come
+ * from the index within its exact radius (runner-ups further away than ~91%
+ * similarity aren't worth offering); fused pools are a bounded linear scan.
+ */
+function runnerUpCandidates(
+  match: CommentMatch,
+  sourceHash: FrameHash,
+  targetIndex: TargetHashIndex,
+  weights: SignatureWeights | undefined,
+  fps: number
+): MatchCandidate[] {
+  const separation = Math.max(1, Math.round(fps / 2));
+  const taken = [match.targetFrameNumber];
+  const candidates: MatchCandidate[] = [];
+
+  const pool = isDHashOnly(weights)
+    ? targetIndex.nearest(sourceHash.bits, RUNNER_UP_POOL, targetIndex.exactRadius)
+    : targetIndex.nearestBy(t => frameDistance(sourceHash, t, weights), RUNNER_UP_POOL);
+
+  for (const { hash, distance } of pool) {
+    const frame = hash.frameNumber ?? Math.round(hash.timestamp! * fps);
+    if (taken.some(t => Math.abs(t - frame) < separation)) continue;
+
+    taken.push(frame);
+    candidates.push({ frame, timestamp: hash.timestamp ?? frame / fps, similarity: 1 - (distance / 1024) });
+    if (candidates.length === RUNNER_UP_COUNT) break;
+  }
+  return candidates;
+}
@@ -0,0 +1,161 @@
+import sharp from 'sharp';
+import {
+  IDENTITY_TRANSFORM,
+  isIdentityTransform,
+  scaleTranslateTransform,
+  type AffineTransform,
+} from './geometry';
+
+/**
+ * Estimate how the picture moved between a matched source and target frame
+ *
+ * Both frames are compared in normalized coordinates, so different output
+ * resolutions or aspect ratios need no special handling. The search covers
+ * the usual reframes: punch-in/out (scale), pan/tilt (translation) and
+ * letterbox/pillarbox changes (anisotropic scale).
+ *
+ * Scoring is zero-mean normalized cross-correlation, so a regrade between
+ * versions doesn't bias the estimate.
+ */
+export interface FrameRegistration {
+  transform: AffineTransform; // Normalized source → normalized target
+  correlation: number;        // NCC at the chosen transform (-1..1)
+  reliable: boolean;          // Enough structure and a clear fit to trust the transform
+}
+
+const WORK_WIDTH = 96;
+const WORK_HEIGHT = 54;
+const GRID_COLUMNS = 40;      // Source sample grid (normalized, inner 90% of the frame)
+const GRID_ROWS = 24;
+const MIN_OVERLAP = 0.5;      // Share of samples that must land inside the target frame
+const MIN_CORRELATION = 0.6;  // Below this the frames are too different (or too flat) to register
+const IDENTITY_PREFERENCE = 0.01; // Keep identity unless a reframe scores clearly better
+
+interface GrayImage {
+  pixels: Float64Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Register a source frame against its matched target frame
+ *
+ * @param sourceBuffer - Encoded source frame (PNG/JPEG)
+ * @param targetBuffer - Encoded target frame at the matched position
+ */
+export async function registerFrames(sourceBuffer: Buffer, targetBuffer: Buffer): Promise<FrameRegistration> {
+  const [source, target] = await Promise.all([decodeGray(sourceBuffer), decodeGray(targetBuffer)]);
+
+  const samples = sampleGrid(source);
+  const score = (t: AffineTransform) => correlate(samples, target, t);
+
+  const identityScore = score(IDENTITY_TRANSFORM);
+
+  // Coarse search: uniform scale and translation
+  let best = { sx: 1, sy: 1, tx: 0, ty: 0, correlation: identityScore };
+  for (let s = 0.8; s <= 1.25001; s += 0.025) {
+    for (let tx = -0.15; tx <= 0.15001; tx += 0.01) {
+      for (let ty = -0.15; ty <= 0.15001; ty += 0.01) {
+        const correlation = score(scaleTranslateTransform(s, s, tx, ty));
+        if (correlation > best.correlation) {
+          best = { sx: s, sy: s, tx, ty, correlation };
+        }
+      }
+    }
+  }
+
+  // Fine search: coordinate descent with independent x/y scale
+  for (let step = 0.01; step >= 0.00125; step /= 2) {
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const key of ['sx', 'sy', 'tx', 'ty'] as const) {
+        for (const delta of [-step, step]) {
+          const candidate = { ...best, [key]: best[key] + delta };
+          const correlation = score(scaleTranslateTransform(candidate.sx, candidate.sy, candidate.tx, candidate.ty));
+          if (correlation > best.correlation + 1e-6) {
+            best = { ...candidate, correlation };
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+
+  const transform = best.correlation - identityScore < IDENTITY_PREFERENCE
+    ? IDENTITY_TRANSFORM
+    : scaleTranslateTransform(best.sx, best.sy, best.tx, best.ty);
+  const correlation = isIdentityTransform(transform) ? identityScore : best.correlation;
+
+  return {
+    transform,
+    correlation,
+    reliable: correlation >= MIN_CORRELATION,
+  };
+}
+
+async function decodeGray(buffer: Buffer): Promise<GrayImage> {
+  const data = await sharp(buffer)
+    .resize(WORK_WIDTH, WORK_HEIGHT, { fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer();
+  return { pixels: Float64Array.from(data), width: WORK_WIDTH, height: WORK_HEIGHT };
+}
+
+function sampleGrid(image: GrayImage): Array<{ x: number; y: number; value: number }> {
+  const samples: Array<{ x: number; y: number; value: number }> = [];
+  for (let row = 0; row < GRID_ROWS; row++) {
+    for (let col = 0; col < GRID_COLUMNS; col++) {
+      const x = 0.05 + (0.9 * (col + 0.5)) / GRID_COLUMNS;
+      const y = 0.05 + (0.9 * (row + 0.5)) / GRID_ROWS;
+      samples.push({ x, y, value: bilinear(image, x, y)! });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Zero-mean normalized cross-correlation of source samples and the target sampled through the transform
+ */
+function correlate(
+  samples: Array<{ x: number; y: number; value: number }>,
+  target: GrayImage,
+  t: AffineTransform
+): number {
+  let n = 0, sumS = 0, sumT = 0, sumSS = 0, sumTT = 0, sumST = 0;
+  for (const sample of samples) {
+    const value = bilinear(target, t.a * sample.x + t.b * sample.y + t.tx, t.c * sample.x + t.d * sample.y + t.ty);
+    if (value === null) continue;
+    n++;
+    sumS += sample.value;
+    sumT += value;
+    sumSS += sample.value * sample.value;
+    sumTT += value * value;
+    sumST += sample.value * value;
+  }
+  if (n < samples.length * MIN_OVERLAP) return -1;
+
+  const covariance = sumST - (sumS * sumT) / n;
+  const varianceS = sumSS - (sumS * sumS) / n;
+  const varianceT = sumTT - (sumT * sumT) / n;
+  if (varianceS <= 1e-6 || varianceT <= 1e-6) return -1; // Flat frame (black, slate) - nothing to register
+  return covariance / Math.sqrt(varianceS * varianceT);
+}
+
+/**
+ * Sample an image at normalized coordinates (null outside the frame)
+ */
+function bilinear(image: GrayImage, x: number, y: number): number | null {
+  if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+  const px = Math.min(image.width - 1.001, Math.max(0, x * image.width - 0.5));
+  const py = Math.min(image.height - 1.001, Math.max(0, y * image.height - 0.5));
+  const x0 = Math.floor(px);
+  const y0 = Math.floor(py);
+  const fx = px - x0;
+  const fy = py - y0;
+  const i = y0 * image.width + x0;
+  const top = image.pixels[i] * (1 - fx) + image.pixels[i + 1] * fx;
+  const bottom = image.pixels[i + image.width] * (1 - fx) + image.pixels[i + image.width + 1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
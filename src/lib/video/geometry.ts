@@ -0,0 +1,211 @@
+/**
+ * 2D geometry for mapping comment positions between versions
+ *
+ * Frame.io stores annotation and pin coordinates normalized to the displayed
+ * frame (0-1, origin top-left), independent of resolution. Transforms here
+ * map normalized source coordinates to normalized target coordinates, so a
+ * reframe, crop or rescale between versions is a single affine transform:
+ *
+ *   x' = a * x + b * y + tx
+ *   y' = c * x + d * y + ty
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface AffineTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  tx: number;
+  ty: number;
+}
+
+export const IDENTITY_TRANSFORM: AffineTransform = { a: 1, b: 0, c: 0, d: 1, tx: 0, ty: 0 };
+
+export function applyTransform(t: AffineTransform, p: Point): Point {
+  return {
+    x: t.a * p.x + t.b * p.y + t.tx,
+    y: t.c * p.x + t.d * p.y + t.ty,
+  };
+}
+
+/**
+ * Axis-aligned scale about the frame centre followed by a translation
+ * (the shape of a typical reframe: punch-in, pan, letterbox change)
+ */
+export function scaleTranslateTransform(sx: number, sy: number, tx: number, ty: number): AffineTransform {
+  return { a: sx, b: 0, c: 0, d: sy, tx: 0.5 - 0.5 * sx + tx, ty: 0.5 - 0.5 * sy + ty };
+}
+
+/**
+ * Uniform scale factor of a transform (for stroke widths and rectangle sizes)
+ */
+export function transformScale(t: AffineTransform): number {
+  return Math.sqrt(Math.abs(t.a * t.d - t.b * t.c));
+}
+
+export function isIdentityTransform(t: AffineTransform, tolerance: number = 1e-3): boolean {
+  return Math.abs(t.a - 1) < tolerance && Math.abs(t.d - 1) < tolerance &&
+    Math.abs(t.b) < tolerance && Math.abs(t.c) < tolerance &&
+    Math.abs(t.tx) < tolerance && Math.abs(t.ty) < tolerance;
+}
+
+export function isInFrame(p: Point): boolean {
+  return p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1;
+}
+
+/**
+ * Least-squares affine transform from point correspondences
+ * Returns null with fewer than 3 points or (near-)collinear points.
+ */
+export function fitAffine(pairs: Array<{ from: Point; to: Point; weight?: number }>): AffineTransform | null {
+  if (pairs.length < 3) return null;
+
+  // Normal equations for [a b tx] and [c d ty] share the same 3x3 matrix
+  const m = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const rx = [0, 0, 0];
+  const ry = [0, 0, 0];
+  for (const { from, to, weight = 1 } of pairs) {
+    const row = [from.x, from.y, 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) m[i][j] += weight * row[i] * row[j];
+      rx[i] += weight * row[i] * to.x;
+      ry[i] += weight * row[i] * to.y;
+    }
+  }
+
+  const inverse = invert3x3(m);
+  if (!inverse) return null;
+  const solve = (r: number[]) => inverse.map(row => row[0] * r[0] + row[1] * r[1] + row[2] * r[2]);
+  const [a, b, tx] = solve(rx);
+  const [c, d, ty] = solve(ry);
+  return { a, b, c, d, tx, ty };
+}
+
+function invert3x3(m: number[][]): number[][] | null {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+}
+
+// Annotation keys holding a coordinate pair, and keys holding a length
+const POINT_KEY_PAIRS: Array<[string, string]> = [
+  ['x', 'y'],
+  ['x1', 'y1'],
+  ['x2', 'y2'],
+  ['xStart', 'yStart'],
+  ['xEnd', 'yEnd'],
+  ['startX', 'startY'],
+  ['endX', 'endY'],
+];
+const LENGTH_KEYS = ['size', 'width', 'height', 'radius', 'lineWidth', 'strokeWidth'];
+const POINT_ARRAY_KEYS = ['points', 'path', 'coordinates'];
+
+/**
+ * Apply a transform to a Frame.io annotation (drawing) payload
+ *
+ * Annotations arrive either as a JSON string or parsed objects; the result
+ * keeps the same form. Coordinates are found structurally (x/y-style key
+ * pairs, [x, y] tuples inside point arrays) so every drawing tool is covered
+ * without modelling each one. Lengths (stroke size, rectangle width/height)
+ * are scaled by the transform's scale factor.
+ *
+ * @returns Transformed annotation plus how many points fell outside the target frame
+ */
+export function transformAnnotation(
+  annotation: unknown,
+  transform: AffineTransform
+): { annotation: unknown; pointCount: number; outOfFrame: number } {
+  const stats: AnnotationStats = { pointCount: 0, outOfFrame: 0 };
+
+  if (typeof annotation === 'string') {
+    try {
+      const parsed = JSON.parse(annotation);
+      return { annotation: JSON.stringify(transformNode(parsed, transform, stats)), ...stats };
+    } catch {
+      return { annotation, ...stats }; // Not JSON - pass through untouched
+    }
+  }
+  return { annotation: transformNode(annotation, transform, stats), ...stats };
+}
+
+/**
+ * Every coordinate in an annotation payload (same structural rules as transformAnnotation)
+ */
+export function annotationPoints(annotation: unknown): Point[] {
+  const stats: AnnotationStats = { pointCount: 0, outOfFrame: 0, points: [] };
+  let node = annotation;
+  if (typeof annotation === 'string') {
+    try {
+      node = JSON.parse(annotation);
+    } catch {
+      return [];
+    }
+  }
+  transformNode(node, IDENTITY_TRANSFORM, stats);
+  return stats.points!;
+}
+
+interface AnnotationStats {
+  pointCount: number;
+  outOfFrame: number;
+  points?: Point[]; // Collected (mapped) points when set
+}
+
+function transformNode(
+  node: unknown,
+  transform: AffineTransform,
+  stats: AnnotationStats
+): unknown {
+  if (Array.isArray(node)) {
+    // [x, y] tuple
+    if (node.length === 2 && node.every(n => typeof n === 'number')) {
+      return pointToTuple(mapPoint({ x: node[0], y: node[1] }, transform, stats));
+    }
+    return node.map(child => transformNode(child, transform, stats));
+  }
+  if (!node || typeof node !== 'object') return node;
+
+  const result: Record<string, unknown> = { ...(node as Record<string, unknown>) };
+  for (const [xKey, yKey] of POINT_KEY_PAIRS) {
+    if (typeof result[xKey] === 'number' && typeof result[yKey] === 'number') {
+      const p = mapPoint({ x: result[xKey] as number, y: result[yKey] as number }, transform, stats);
+      result[xKey] = p.x;
+      result[yKey] = p.y;
+    }
+  }
+
+  const scale = transformScale(transform);
+  for (const key of LENGTH_KEYS) {
+    if (typeof result[key] === 'number') {
+      result[key] = (result[key] as number) * scale;
+    }
+  }
+
+  for (const [key, value] of Object.entries(result)) {
+    if (POINT_ARRAY_KEYS.includes(key) || (value && typeof value === 'object')) {
+      result[key] = transformNode(value, transform, stats);
+    }
+  }
+  return result;
+}
+
+function mapPoint(p: Point, transform: AffineTransform, stats: AnnotationStats): Point {
+  const mapped = applyTransform(transform, p);
+  stats.pointCount++;
+  stats.points?.push(mapped);
+  if (!isInFrame(mapped)) stats.outOfFrame++;
+  return mapped;
+}
+
+function pointToTuple(p: Point): [number, number] {
+  return [p.x, p.y];
+}
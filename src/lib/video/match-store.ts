@@ -0,0 +1,211 @@
+import { db, commentMatches, type NewCommentMatchRow } from '@/lib/db';
+import { and, asc, eq } from 'drizzle-orm';
+import type { CommentMatch } from './frame-processor';
+import { recordOverride, supersedeOverrides, type OverrideKind } from './placement-overrides';
+
+/**
+ * Stored matches
+ *
+ * Every match a job computes is kept whole (source comment, range, geometry,
+ * region check) so a dry run can be inspected and later transferred exactly
+ * as computed, without decoding either video again. The scalar columns copy
+ * what the app lists; the JSON is the source of truth.
+ *
+ * Matches are reviewed before a dry run is promoted: high-confidence matches
+ * start approved, the rest pending, and only approved matches are posted.
+ * A reviewer may move a match to one of its runner-up placements, or to any
+ * target frame found by scrubbing the proxy; that placement is what is posted.
+ */
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+export interface StoredMatch {
+  id: string;
+  position: number;
+  match: CommentMatch;
+  reviewStatus: ReviewStatus;
+  selected: Placement | null; // Placement chosen by the reviewer (null: the computed one)
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+}
+
+export interface Placement {
+  kind: OverrideKind;
+  frame: number;              // Target frame numbering
+  timestamp: number;          // Seconds on the target
+  similarity: number | null;  // Known for runner-ups only
+}
+
+export interface ReviewDecision {
+  status: ReviewStatus;
+  selectedFrame?: number | null; // Any target frame (runner-up or scrubbed), or null to restore the computed placement
+  reviewedBy: string;
+}
+
+const FALLBACK_FPS = 25; // Frame rate assumed for matches placed at 0s
+
+/**
+ * Store a job's matches, replacing any from an earlier run of the same job
+ */
+export async function saveMatches(jobId: string, matches: CommentMatch[]): Promise<void> {
+  await db.delete(commentMatches).where(eq(commentMatches.jobId, jobId));
+  if (matches.length === 0) return;
+
+  const rows: NewCommentMatchRow[] = matches.map((match, position) => ({
+    jobId,
+    position,
+    sourceCommentId: match.sourceComment.id,
+    targetFrameNumber: match.targetFrameNumber,
+    targetTimestamp: match.targetTimestamp.toFixed(3),
+    similarity: match.similarity.toFixed(4),
+    confidence: match.confidence,
+    reason: match.reason,
+    match: JSON.stringify(match),
+    reviewStatus: match.confidence === 'high' ? 'approved' : 'pending',
+  }));
+  await db.insert(commentMatches).values(rows);
+
+  console.log(`💾 Stored ${matches.length} matches`);
+}
+
+/**
+ * A job's stored matches in their original order
+ */
+export async function listMatches(jobId: string): Promise<StoredMatch[]> {
+  const rows = await db.query.commentMatches.findMany({
+    where: eq(commentMatches.jobId, jobId),
+    orderBy: [asc(commentMatches.position)],
+  });
+  return rows.map(row => {
+    const match = JSON.parse(row.match) as CommentMatch;
+    const selectedTimestamp = row.selectedTimestamp !== null ? parseFloat(row.selectedTimestamp) : undefined;
+    return {
+      id: row.id,
+      position: row.position,
+      match,
+      reviewStatus: row.reviewStatus as ReviewStatus,
+      selected: placementAt(match, row.selectedFrameNumber, selectedTimestamp),
+      reviewedBy: row.reviewedBy,
+      reviewedAt: row.reviewedAt,
+    };
+  });
+}
+
+/**
+ * Approved matches, placed where the reviewer chose, ready to transfer
+ */
+export async function loadApprovedMatches(jobId: string): Promise<CommentMatch[]> {
+  return (await listMatches(jobId))
+    .filter(stored => stored.reviewStatus === 'approved')
+    .map(stored => stored.selected ? placeAt(stored.match, stored.selected) : stored.match);
+}
+
+/**
+ * Record a review decision on one of a job's matches
+ * An approved match placed other than where it was computed is logged as a
+ * placement override; when that stops being what would be posted (selection
+ * cleared or replaced, match rejected or back to pending) the override is
+ * marked superseded.
+ *
+ * @param targetFrameCount - Frames in the target, bounding selected frames (unknown: unbounded)
+ * @returns The updated match, or null if the job has no such match
+ * @throws If the selected frame is outside the target
+ */
+export async function reviewMatch(
+  jobId: string,
+  matchId: string,
+  decision: ReviewDecision,
+  targetFrameCount?: number
+): Promise<StoredMatch | null> {
+  const stored = (await listMatches(jobId)).find(m => m.id === matchId);
+  if (!stored) return null;
+
+  const keepSelection = decision.selectedFrame === undefined;
+  const selected = keepSelection
+    ? stored.selected
+    : placementAt(stored.match, decision.selectedFrame ?? null, undefined, targetFrameCount);
+
+  const reviewedAt = new Date();
+  await db.update(commentMatches)
+    .set({
+      reviewStatus: decision.status,
+      reviewedBy: decision.reviewedBy,
+      reviewedAt,
+      ...(keepSelection ? {} : {
+        selectedFrameNumber: selected?.frame ?? null,
+        selectedTimestamp: selected?.timestamp.toFixed(3) ?? null,
+      }),
+    })
+    .where(and(eq(commentMatches.id, matchId), eq(commentMatches.jobId, jobId)));
+
+  // Overrides describe what would be posted: an approved match's chosen placement
+  const postedBefore = stored.reviewStatus === 'approved' ? stored.selected : null;
+  const postedAfter = decision.status === 'approved' ? selected : null;
+  if (postedBefore?.frame !== postedAfter?.frame) {
+    await supersedeOverrides(matchId);
+    if (postedAfter) {
+      await recordOverride(jobId, matchId, stored.match, postedAfter, decision.reviewedBy);
+    }
+  }
+
+  return {
+    ...stored,
+    reviewStatus: decision.status,
+    selected,
+    reviewedBy: decision.reviewedBy,
+    reviewedAt,
+  };
+}
+
+/**
+ * Frame rate of the target, from the match's own frame and timestamp
+ */
+export function targetFps(match: CommentMatch): number {
+  return match.targetTimestamp > 0 ? match.targetFrameNumber / match.targetTimestamp : FALLBACK_FPS;
+}
+
+/**
+ * What choosing a target frame means for a match: nothing (the computed
+ * frame), one of its runner-ups, or a frame the reviewer scrubbed to
+ */
+function placementAt(
+  match: CommentMatch,
+  frame: number | null,
+  timestamp?: number,
+  frameCount?: number
+): Placement | null {
+  if (frame === null || frame === match.targetFrameNumber) return null;
+  if (frame < 0) {
+    throw new Error(`Frame ${frame} is before the start of the target`);
+  }
+  if (frameCount !== undefined && frame >= frameCount) {
+    throw new Error(`Frame ${frame} is past the end of the target (${frameCount} frames)`);
+  }
+
+  const candidate = match.candidates?.find(c => c.frame === frame);
+  return candidate
+    ? { kind: 'runner_up', frame, timestamp: candidate.timestamp, similarity: candidate.similarity }
+    : { kind: 'manual', frame, timestamp: timestamp ?? frame / targetFps(match), similarity: null };
+}
+
+/**
+ * Move a match to another target placement, carrying its range along
+ * Scrubbed frames were never hashed, so they keep the computed similarity.
+ */
+function placeAt(match: CommentMatch, placement: Placement): CommentMatch {
+  const shift = placement.frame - match.targetFrameNumber;
+  const how = placement.kind === 'runner_up' ? 'reviewer picked runner-up' : 'reviewer placed manually at';
+  return {
+    ...match,
+    targetFrameNumber: placement.frame,
+    targetTimestamp: placement.timestamp,
+    similarity: placement.similarity ?? match.similarity,
+    reason: `${match.reason ?? ''}; ${how} target#${placement.frame} (matched #${match.targetFrameNumber})`,
+    range: match.range && {
+      ...match.range,
+      targetInFrame: match.range.targetInFrame + shift,
+      targetOutFrame: match.range.targetOutFrame + shift,
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { db, commentMatches, placementOverrides, type PlacementOverride } from '@/lib/db';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import type { CommentMatch } from './frame-processor';
+
+/**
+ * Placement overrides
+ *
+ * Whenever a reviewer posts a comment somewhere other than where the matcher
+ * put it (a runner-up, or a frame found by scrubbing the target), the
+ * matcher's original placement is logged next to the correction. The log is
+ * append-only: when the selection is replaced or cleared, or the match stops
+ * being approved, its row is marked superseded rather than removed. Read back
+ * with listOverrides (current placements only) to measure how far off
+ * matchWithConfidence was, and at which similarity and confidence, when
+ * tuning its thresholds.
+ */
+export type OverrideKind = 'runner_up' | 'manual';
+
+export interface OverrideSample {
+  jobId: string;
+  sourceCommentId: string;
+  sourceFrameNumber: number | null;
+  kind: OverrideKind;
+  original: {
+    frame: number;
+    timestamp: number;
+    similarity: number;
+    confidence: string | null;
+  };
+  override: {
+    frame: number;
+    timestamp: number;
+  };
+  frameError: number; // Override minus original, in target frames
+  match: CommentMatch; // As computed, including reason and runner-ups
+  overriddenBy: string;
+  createdAt: Date | null;
+}
+
+/**
+ * Log a reviewer's placement against the match as the matcher computed it
+ * Call supersedeOverrides first when it replaces an earlier placement.
+ */
+export async function recordOverride(
+  jobId: string,
+  matchId: string,
+  match: CommentMatch,
+  override: { kind: OverrideKind; frame: number; timestamp: number },
+  overriddenBy: string
+): Promise<void> {
+  await db.insert(placementOverrides).values({
+    jobId,
+    matchId,
+    sourceCommentId: match.sourceComment.id,
+    sourceFrameNumber: match.sourceComment.timestamp ?? null,
+    kind: override.kind,
+    originalFrameNumber: match.targetFrameNumber,
+    originalTimestamp: match.targetTimestamp.toFixed(3),
+    originalSimilarity: match.similarity.toFixed(4),
+    originalConfidence: match.confidence ?? null,
+    originalMatch: JSON.stringify(match),
+    overrideFrameNumber: override.frame,
+    overrideTimestamp: override.timestamp.toFixed(3),
+    overriddenBy,
+  });
+
+  console.log(
+    `🎯 Placement override (${override.kind}): "${match.sourceComment.text?.substring(0, 30)}..." ` +
+    `target#${match.targetFrameNumber} → #${override.frame}`
+  );
+}
+
+/**
+ * Mark a match's current override as no longer what would be posted
+ */
+export async function supersedeOverrides(matchId: string): Promise<void> {
+  await db.update(placementOverrides)
+    .set({ supersededAt: new Date() })
+    .where(and(eq(placementOverrides.matchId, matchId), isNull(placementOverrides.supersededAt)));
+}
+
+/**
+ * Current overrides as evaluation samples, newest first: only placements of
+ * matches that are still approved at the overriding frame
+ */
+export async function listOverrides(options: { jobId?: string; limit?: number } = {}): Promise<OverrideSample[]> {
+  const query = db.select({ override: placementOverrides })
+    .from(placementOverrides)
+    .innerJoin(commentMatches, and(
+      eq(commentMatches.id, placementOverrides.matchId),
+      eq(commentMatches.reviewStatus, 'approved'),
+      eq(commentMatches.selectedFrameNumber, placementOverrides.overrideFrameNumber),
+    ))
+    .where(and(
+      isNull(placementOverrides.supersededAt),
+      options.jobId ? eq(placementOverrides.jobId, options.jobId) : undefined,
+    ))
+    .orderBy(desc(placementOverrides.createdAt));
+
+  const rows = options.limit !== undefined ? await query.limit(options.limit) : await query;
+  return rows.map(row => toSample(row.override));
+}
+
+function toSample(row: PlacementOverride): OverrideSample {
+  return {
+    jobId: row.jobId,
+    sourceCommentId: row.sourceCommentId,
+    sourceFrameNumber: row.sourceFrameNumber,
+    kind: row.kind as OverrideKind,
+    original: {
+      frame: row.originalFrameNumber,
+      timestamp: parseFloat(row.originalTimestamp),
+      similarity: parseFloat(row.originalSimilarity),
+      confidence: row.originalConfidence,
+    },
+    override: {
+      frame: row.overrideFrameNumber,
+      timestamp: parseFloat(row.overrideTimestamp),
+    },
+    frameError: row.overrideFrameNumber - row.originalFrameNumber,
+    match: JSON.parse(row.originalMatch) as CommentMatch,
+    overriddenBy: row.overriddenBy,
+    createdAt: row.createdAt,
+  };
+}
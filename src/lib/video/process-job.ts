@@ -1,8 +1,15 @@
-import { db, processingJobs } from '@/lib/db';
-import { eq } from 'drizzle-orm';
+import { db, processingJobs, type ProcessingJob } from '@/lib/db';
+import { eq, sql } from 'drizzle-orm';
 import { FrameioClient } from '@/lib/frameio-client';
-import { FrameProcessor } from './frame-processor';
-import { CommentTransfer } from './comment-transfer';
+import { FrameProcessor, type CommentMatch, type ProcessingOptions } from './frame-processor';
+import { CommentTransfer, parseDuplicateMode } from './comment-transfer';
+import { parseSignatureWeights } from '@/lib/ai/signatures';
+import { parseNormalizationMode } from '@/lib/ai/perceptual-hash';
+import { parseMasks } from './roi-masks';
+import { parseAttributionOptions, parseResolvedCommentsMode } from './attribution';
+import { mergeVersionMatches, parseSourceVersions, type SourceVersion } from './version-merge';
+import { forgetComments, recordLineage } from './comment-lineage';
+import { loadApprovedMatches, saveMatches } from './match-store';
 
 export interface JobResult {
   success: boolean;
@@ -10,19 +17,36 @@ export interface JobResult {
   transferred: number;
   skipped: number;
   failed: number;
+  error?: string; // Set when the run failed outright (retryable), not for partial transfers
+}
+
+export interface RevertResult {
+  success: boolean;
+  message: string;
+  deleted: number;
+  failed: number;
+  error?: string; // Set when the revert failed outright (retryable)
 }
 
+/**
+ * Job states a revert can start from (reverted_with_errors retries the comments still left)
+ */
+export const REVERTIBLE_STATUSES = ['completed', 'completed_with_errors', 'reverted_with_errors'];
+
 /**
  * Process a comment transfer job from start to finish
  * 
  * Workflow:
  * 1. Load job from database
  * 2. Create Frame.io client from stored tokens
- * 3. Process videos using FrameProcessor (extract frames, generate hashes, match)
- * 4. Transfer matched comments using CommentTransfer
+ * 3. Process videos using FrameProcessor (extract frames, generate hashes, match), store the matches
+ * 4. Transfer matched comments using CommentTransfer (skipped for dry runs - see promoteJob)
  * 5. Update job status with results
+ *
+ * @param signal - Aborted when the worker loses the job's lease: the run stops before
+ *   any further Frame.io write and leaves the job to whichever worker claimed it next
  */
-export async function processJob(jobId: string): Promise<JobResult> {
+export async function processJob(jobId: string, signal?: AbortSignal): Promise<JobResult> {
   const startTime = Date.now();
   
   console.log(`\n${'='.repeat(80)}`);
@@ -66,98 +90,475 @@ export async function processJob(jobId: string): Promise<JobResult> {
     console.log('✅ Frame.io client authenticated\n');
 
     // Step 3: Process videos (extract frames, generate hashes, match comments)
+    const signatureWeights = parseSignatureWeights(metadata.signatureWeights);
+    console.log(`🧬 Signatures: ${Object.entries(signatureWeights).map(([id, w]) => `${id}×${w}`).join(', ')}`);
+    const normalization = parseNormalizationMode(metadata.normalization);
+    if (normalization !== 'none') {
+      console.log(`🎨 Normalization: ${normalization}`);
+    }
+
     const processor = new FrameProcessor(client);
-    const matches = await processor.processVideos({
+    const processingOptions: ProcessingOptions = {
       accountId: job.accountId!,
       sourceFileId: job.sourceFileId!,
       targetFileId: job.targetFileId!,
       jobId,
-    });
+      versionDiff: metadata.versionDiff !== false,
+      signatureWeights,
+      cropDetection: metadata.cropDetection !== false,
+      normalization,
+      audioMatching: metadata.audioMatching !== false,
+      masks: parseMasks(metadata.masks),
+      autoMasks: metadata.autoMasks === true,
+    };
+
+    // "All previous versions" jobs match every older version independently, then merge
+    const sourceVersions = parseSourceVersions(metadata.sourceVersions);
+    const matches = sourceVersions.length > 1
+      ? await matchAllVersions(processor, processingOptions, sourceVersions)
+      : await processor.processVideos(processingOptions);
 
     console.log(`\n✅ Frame processing complete: ${matches.length} matches found\n`);
+    signal?.throwIfAborted();
 
-    // Step 4: Transfer comments
-    await updateJob(jobId, 'processing', 0.95, `Transferring ${matches.length} comments...`);
-    const transferService = new CommentTransfer(client);
-    
-    // Parse sensitivity from metadata (high/medium/low)
-    const sensitivity = (metadata.sensitivity as 'high' | 'medium' | 'low') || 'medium';
-    const sensitivityMap: Record<'high' | 'medium' | 'low', number> = {
-      high: 0.90,   // 90% similarity (very strict, only near-perfect matches)
-      medium: 0.80, // 80% similarity (default, balanced)
-      low: 0.70,    // 70% similarity (more permissive)
+    // Keep every match (confidence, reason) for previews, review and promotion
+    await saveMatches(jobId, matches);
+
+    if (metadata.dryRun === true) {
+      return await completeDryRun(jobId, matches, startTime);
+    }
+
+    return await transferAndComplete(job, metadata, client, matches, startTime, false, signal);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`\n❌ JOB FAILED: ${errorMessage}\n`);
+    console.error(error);
+
+    // After a lost lease the job belongs to the worker that claimed it next
+    if (!signal?.aborted) {
+      await updateJob(
+        jobId,
+        'failed',
+        1.0,
+        `Error: ${errorMessage}`,
+        {
+          errorMessage,
+        }
+      );
+    }
+
+    return {
+      success: false,
+      message: `Job failed: ${errorMessage}`,
+      transferred: 0,
+      skipped: 0,
+      failed: 0,
+      error: errorMessage,
     };
-    const minSimilarity = sensitivityMap[sensitivity] || 0.80;
+  }
+}
 
+/**
+ * Steps 4-5: post matches to the target, record lineage and close the job
+ * Shared by fresh jobs and promoted dry runs (which reuse their stored matches).
+ *
+ * @param reviewed - Every match was approved by a person, so the similarity threshold no longer applies
+ * @param signal - Lease lost: stop posting, record what was created, then throw
+ */
+async function transferAndComplete(
+  job: ProcessingJob,
+  metadata: Record<string, unknown>,
+  client: FrameioClient,
+  matches: CommentMatch[],
+  startTime: number,
+  reviewed: boolean = false,
+  signal?: AbortSignal
+): Promise<JobResult> {
+  const jobId = job.id;
+  const sourceVersions = parseSourceVersions(metadata.sourceVersions);
+
+  // Step 4: Transfer comments
+  signal?.throwIfAborted();
+  await updateJob(jobId, 'processing', 0.95, `Transferring ${matches.length} comments...`);
+  const transferService = new CommentTransfer(client);
+  
+  // Parse sensitivity from metadata (high/medium/low)
+  const sensitivity = (metadata.sensitivity as 'high' | 'medium' | 'low') || 'medium';
+  const sensitivityMap: Record<'high' | 'medium' | 'low', number> = {
+    high: 0.90,   // 90% similarity (very strict, only near-perfect matches)
+    medium: 0.80, // 80% similarity (default, balanced)
+    low: 0.70,    // 70% similarity (more permissive)
+  };
+  const minSimilarity = reviewed ? 0 : sensitivityMap[sensitivity] || 0.80;
+
+  if (reviewed) {
+    console.log('🎯 Similarity threshold: none (reviewed matches)');
+  } else {
     console.log(`🎯 Similarity threshold: ${(minSimilarity * 100).toFixed(0)}% (${sensitivity} sensitivity)`);
+  }
 
-    const transferResult = await transferService.transferComments(
-      job.accountId!,
-      job.targetFileId!,
-      matches,
-      { minSimilarity }
-    );
+  const resolvedComments = parseResolvedCommentsMode(metadata.resolvedComments);
+  if (resolvedComments !== 'transfer') {
+    console.log(`✅ Resolved comments: ${resolvedComments}`);
+  }
 
-    // Step 5: Update job with results
-    const duration = Date.now() - startTime;
-    const minutes = Math.floor(duration / 60000);
-    const seconds = Math.floor((duration % 60000) / 1000);
-    const durationStr = minutes > 0 ? `${minutes}min ${seconds}sec` : `${seconds}sec`;
-    
-    const finalMessage = transferResult.success
-      ? `✅ Transferred ${transferResult.transferred} of ${matches.length} comments successfully`
-      : `⚠️ Transferred ${transferResult.transferred}, failed ${transferResult.failed}, skipped ${transferResult.skipped}`;
+  const duplicates = parseDuplicateMode(metadata.duplicates);
 
-    await updateJob(
-      jobId,
-      transferResult.success ? 'completed' : 'completed_with_errors',
-      1.0,
-      finalMessage,
+  const transferResult = await transferService.transferComments(
+    job.accountId!,
+    job.targetFileId!,
+    matches,
+    {
+      minSimilarity,
+      attribution: parseAttributionOptions(metadata.attribution),
+      resolvedComments,
+      duplicates,
+      signal,
+    }
+  );
+
+  // Revert deletes exactly these, so a failed write fails the job instead of leaving them untracked
+  const createdIds = transferResult.details
+    .filter(d => d.transferred && d.newCommentId)
+    .map(d => d.newCommentId!);
+  try {
+    await recordCreatedComments(jobId, createdIds);
+  } catch (error) {
+    throw new Error(
+      `Posted ${createdIds.length} comments but could not record them for revert: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  // Record where each created comment came from (non-fatal: the comments are already posted)
+  try {
+    await recordLineage(
+      { id: jobId, sourceFileId: job.sourceFileId!, targetFileId: job.targetFileId! },
+      transferResult.details,
       {
-        matchesFound: matches.length,
-        commentsTransferred: transferResult.transferred,
-        completedAt: new Date(),
+        [job.sourceFileId!]: metadata.sourceFileName as string | undefined,
+        [job.targetFileId!]: metadata.targetFileName as string | undefined,
+        ...Object.fromEntries(sourceVersions.map(v => [v.fileId, v.fileName])),
       }
     );
+  } catch (error) {
+    console.warn('⚠️  Failed to record comment lineage:', error);
+  }
+  signal?.throwIfAborted();
 
-    console.log(`\n${'='.repeat(80)}`);
-    console.log(`✅ JOB COMPLETED in ${durationStr}: ${jobId.substring(0, 8)}`);
-    console.log(`   Transferred: ${transferResult.transferred} | Skipped: ${transferResult.skipped} | Failed: ${transferResult.failed}`);
-    console.log(`${'='.repeat(80)}\n`);
+  // Step 5: Update job with results
+  const duration = Date.now() - startTime;
+  const minutes = Math.floor(duration / 60000);
+  const seconds = Math.floor((duration % 60000) / 1000);
+  const durationStr = minutes > 0 ? `${minutes}min ${seconds}sec` : `${seconds}sec`;
+  
+  const audioDecided = matches.filter(m => m.audio?.decided).length;
+  const audioNote = audioDecided > 0 ? ` (${audioDecided} placed by audio)` : '';
+  const pinsOutOfFrame = transferResult.details.filter(d => d.pinOutOfFrame).length;
+  const pinNote = pinsOutOfFrame > 0 ? ` (${pinsOutOfFrame} pins outside the reframed target)` : '';
+  const regionsChanged = transferResult.details.filter(d => d.transferred && d.regionChanged).length;
+  const regionNote = regionsChanged > 0 ? ` (${regionsChanged} on changed regions)` : '';
+  const repliesTransferred = transferResult.details.reduce((sum, d) => sum + (d.repliesTransferred ?? 0), 0);
+  const replyNote = repliesTransferred > 0 ? ` with ${repliesTransferred} replies` : '';
+  const alreadyOnTarget = transferResult.details.filter(d => d.duplicateOf).length;
+  const duplicateNote = alreadyOnTarget > 0
+    ? ` (${alreadyOnTarget} already on target${transferResult.updated > 0 ? `, ${transferResult.updated} updated` : ''})`
+    : '';
+  const versionNote = sourceVersions.length > 1 ? ` from ${sourceVersions.length} previous versions` : '';
+  const notes = `${versionNote}${replyNote}${duplicateNote}${audioNote}${pinNote}${regionNote}`;
+  const finalMessage = transferResult.success
+    ? `✅ Transferred ${transferResult.transferred} of ${matches.length} comments successfully${notes}`
+    : `⚠️ Transferred ${transferResult.transferred}, failed ${transferResult.failed}, skipped ${transferResult.skipped}${notes}`;
 
-    return {
-      success: transferResult.success,
-      message: finalMessage,
-      transferred: transferResult.transferred,
-      skipped: transferResult.skipped,
-      failed: transferResult.failed,
-    };
+  await updateJob(
+    jobId,
+    transferResult.success ? 'completed' : 'completed_with_errors',
+    1.0,
+    finalMessage,
+    {
+      matchesFound: matches.length,
+      commentsTransferred: transferResult.transferred,
+      completedAt: new Date(),
+    }
+  );
+
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`✅ JOB COMPLETED in ${durationStr}: ${jobId.substring(0, 8)}`);
+  console.log(`   Transferred: ${transferResult.transferred} | Skipped: ${transferResult.skipped} | Failed: ${transferResult.failed}`);
+  console.log(`${'='.repeat(80)}\n`);
+
+  return {
+    success: transferResult.success,
+    message: finalMessage,
+    transferred: transferResult.transferred,
+    skipped: transferResult.skipped,
+    failed: transferResult.failed,
+  };
+
+}
+
+/**
+ * Close a dry-run job: matches are stored, nothing is posted
+ */
+async function completeDryRun(jobId: string, matches: CommentMatch[], startTime: number): Promise<JobResult> {
+  const byConfidence = (confidence: string) => matches.filter(m => m.confidence === confidence).length;
+  const message = `🔍 Dry run: ${matches.length} matches (${byConfidence('high')} high, ` +
+    `${byConfidence('medium')} medium, ${byConfidence('low')} low) - nothing posted`;
+
+  await updateJob(jobId, 'dry_run', 1.0, message, {
+    matchesFound: matches.length,
+    completedAt: new Date(),
+  });
+
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`🔍 DRY RUN COMPLETED in ${Math.round((Date.now() - startTime) / 1000)}sec: ${jobId.substring(0, 8)}`);
+  console.log(`${'='.repeat(80)}\n`);
+
+  return { success: true, message, transferred: 0, skipped: matches.length, failed: 0 };
+}
+
+/**
+ * Turn a dry run into a real transfer using its stored matches (no re-decoding)
+ * Only matches approved in review are posted, at the placement the reviewer chose.
+ * A failed promotion returns the job to dry_run so it can be retried; comments
+ * already posted are recognised as duplicates on the retry.
+ *
+ * @param signal - Aborted when the worker loses the lease (see processJob)
+ */
+export async function promoteJob(jobId: string, signal?: AbortSignal): Promise<JobResult> {
+  const startTime = Date.now();
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`🚀 PROMOTING DRY RUN: ${jobId.substring(0, 8)}`);
+  console.log(`${'='.repeat(80)}\n`);
+
+  try {
+    const job = await db.query.processingJobs.findFirst({
+      where: eq(processingJobs.id, jobId),
+    });
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+    if (!job.userId) {
+      throw new Error('Job missing userId - cannot authenticate');
+    }
+
+    const client = await FrameioClient.fromUserId(job.userId);
+    if (!client) {
+      throw new Error('Failed to create Frame.io client - user not authenticated');
+    }
+
+    const matches = await loadApprovedMatches(jobId);
+    if (matches.length === 0) {
+      throw new Error('No approved matches to transfer');
+    }
+    console.log(`📦 Loaded ${matches.length} approved matches\n`);
+
+    const metadata = job.metadata ? JSON.parse(job.metadata) : {};
+    signal?.throwIfAborted();
+    await mergeJobMetadata(jobId, { dryRun: false, promotedAt: new Date().toISOString() });
+    return await transferAndComplete(job, metadata, client, matches, startTime, true, signal);
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`\n❌ JOB FAILED: ${errorMessage}\n`);
-    console.error(error);
+    console.error(`\n❌ PROMOTION FAILED: ${errorMessage}\n`);
 
-    await updateJob(
-      jobId,
-      'failed',
-      1.0,
-      `Error: ${errorMessage}`,
-      {
-        errorMessage,
-      }
-    );
+    if (!signal?.aborted) {
+      await updateJob(jobId, 'dry_run', 1.0, `❌ Promotion failed: ${errorMessage}`);
+    }
 
     return {
       success: false,
-      message: `Job failed: ${errorMessage}`,
+      message: `Promotion failed: ${errorMessage}`,
       transferred: 0,
       skipped: 0,
       failed: 0,
+      error: errorMessage,
     };
   }
 }
 
+/**
+ * Undo a job by deleting the comments it created on the target
+ *
+ * Created comment ids come from the job's createdCommentIds; deleted comments
+ * are removed from it (so a retry only touches what is left) and lose their
+ * lineage rows so later duplicate checks and traces don't see them.
+ * Each attempt is appended to the job's metadata (reverts) as its history.
+ *
+ * @param previousStatus - Status to restore if the revert fails outright (callers may claim the job as 'reverting' first)
+ * @param signal - Aborted when the worker loses the lease: deletion stops and the job is left to the next run
+ */
+export async function revertJob(
+  jobId: string,
+  requestedBy: { id: string; name?: string },
+  previousStatus: string,
+  signal?: AbortSignal
+): Promise<RevertResult> {
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`↩️  REVERTING JOB: ${jobId.substring(0, 8)}`);
+  console.log(`${'='.repeat(80)}\n`);
+
+  const job = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.id, jobId),
+  });
+  if (!job) {
+    throw new Error(`Job not found: ${jobId}`);
+  }
+
+  const startedAt = new Date().toISOString();
+
+  try {
+    if (!job.userId || !job.accountId) {
+      throw new Error('Job missing userId/accountId - cannot authenticate');
+    }
+    const client = await FrameioClient.fromUserId(job.userId);
+    if (!client) {
+      throw new Error('Failed to create Frame.io client - user not authenticated');
+    }
+
+    const commentIds = job.createdCommentIds ?? [];
+    signal?.throwIfAborted();
+    await updateJob(jobId, 'reverting', 0, `Deleting ${commentIds.length} transferred comments...`);
+
+    const result = await new CommentTransfer(client).deleteComments(job.accountId, commentIds, signal);
+    await forgetCreatedComments(jobId, result.deleted);
+    await forgetComments(result.deleted);
+    signal?.throwIfAborted();
+
+    const status = result.failed.length === 0 ? 'reverted' : 'reverted_with_errors';
+    const message = result.failed.length === 0
+      ? `↩️ Reverted: deleted ${result.deleted.length} transferred comments`
+      : `⚠️ Reverted partially: deleted ${result.deleted.length}, failed ${result.failed.length}`;
+
+    await appendRevertHistory(jobId, {
+      requestedBy,
+      startedAt,
+      completedAt: new Date().toISOString(),
+      deleted: result.deleted.length,
+      alreadyDeleted: result.alreadyDeleted,
+      failed: result.failed,
+    });
+    await updateJob(jobId, status, 1.0, message);
+
+    console.log(`\n✅ REVERT ${status.toUpperCase()}: ${jobId.substring(0, 8)}\n`);
+    return { success: result.failed.length === 0, message, deleted: result.deleted.length, failed: result.failed.length };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`\n❌ REVERT FAILED: ${errorMessage}\n`);
+
+    // Nothing (or not everything) was deleted - leave the job revertible
+    if (!signal?.aborted) {
+      await appendRevertHistory(jobId, { requestedBy, startedAt, completedAt: new Date().toISOString(), error: errorMessage });
+      await updateJob(jobId, previousStatus, 1.0, `❌ Revert failed: ${errorMessage}`);
+    }
+
+    return { success: false, message: `Revert failed: ${errorMessage}`, deleted: 0, failed: 0, error: errorMessage };
+  }
+}
+
+/**
+ * Match every previous version against the target, then merge into one deduplicated list
+ * A version that fails (no comments, no proxy) is skipped; the job fails only if all do.
+ */
+async function matchAllVersions(
+  processor: FrameProcessor,
+  options: ProcessingOptions,
+  sourceVersions: SourceVersion[]
+): Promise<CommentMatch[]> {
+  console.log(`📚 Collecting from ${sourceVersions.length} previous versions: v${sourceVersions.map(v => v.version).join(', v')}`);
+
+  const perVersion: Array<{ origin: SourceVersion; matches: CommentMatch[] }> = [];
+  const versionSummaries: Array<{ version: number; fileId: string; matches: number; error?: string }> = [];
+  for (const origin of sourceVersions) {
+    console.log(`\n${'-'.repeat(80)}\n📼 Version v${origin.version}: ${origin.fileName || origin.fileId.substring(0, 8)}\n${'-'.repeat(80)}`);
+    try {
+      const matches = await processor.processVideos({ ...options, sourceFileId: origin.fileId });
+      perVersion.push({ origin, matches });
+      versionSummaries.push({ version: origin.version, fileId: origin.fileId, matches: matches.length });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Skipping v${origin.version}: ${errorMessage}`);
+      versionSummaries.push({ version: origin.version, fileId: origin.fileId, matches: 0, error: errorMessage });
+    }
+  }
+
+  if (perVersion.length === 0) {
+    throw new Error(`No previous version could be matched (${versionSummaries.map(v => `v${v.version}: ${v.error}`).join('; ')})`);
+  }
+
+  const { matches, duplicates } = mergeVersionMatches(perVersion);
+  console.log(`\n🔗 Merged ${matches.length} notes from ${perVersion.length} versions (${duplicates} earlier transfers deduplicated)\n`);
+
+  await mergeJobMetadata(options.jobId, {
+    merge: {
+      versions: versionSummaries,
+      duplicates,
+      notes: matches.map(m => ({
+        commentId: m.sourceComment.id,
+        originVersion: m.origin?.version,
+        originFileId: m.origin?.fileId,
+      })),
+    },
+  });
+  return matches;
+}
+
+/**
+ * Shallow-merge a patch into the job's JSON metadata
+ */
+async function mergeJobMetadata(jobId: string, patch: Record<string, unknown>): Promise<void> {
+  const job = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.id, jobId),
+  });
+  const metadata = job?.metadata
+    ? (typeof job.metadata === 'string' ? JSON.parse(job.metadata) : job.metadata)
+    : {};
+
+  await db.update(processingJobs)
+    .set({ metadata: JSON.stringify({ ...metadata, ...patch }) })
+    .where(eq(processingJobs.id, jobId));
+}
+
+/**
+ * Add a revert attempt to the job's metadata history
+ */
+async function appendRevertHistory(jobId: string, entry: Record<string, unknown>): Promise<void> {
+  const job = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.id, jobId),
+  });
+  const metadata = job?.metadata
+    ? (typeof job.metadata === 'string' ? JSON.parse(job.metadata) : job.metadata)
+    : {};
+  const reverts = Array.isArray(metadata.reverts) ? metadata.reverts : [];
+
+  await mergeJobMetadata(jobId, { reverts: [...reverts, entry] });
+}
+
+/**
+ * Append comment ids to the job's created comments
+ */
+async function recordCreatedComments(jobId: string, commentIds: string[]): Promise<void> {
+  if (commentIds.length === 0) return;
+  await db.update(processingJobs)
+    .set({
+      createdCommentIds: sql`coalesce(${processingJobs.createdCommentIds}, '[]'::jsonb) || ${JSON.stringify(commentIds)}::jsonb`,
+    })
+    .where(eq(processingJobs.id, jobId));
+}
+
+/**
+ * Drop deleted comment ids from the job's created comments
+ */
+async function forgetCreatedComments(jobId: string, commentIds: string[]): Promise<void> {
+  if (commentIds.length === 0) return;
+  await db.update(processingJobs)
+    .set({
+      createdCommentIds: sql`${processingJobs.createdCommentIds} - ARRAY(SELECT jsonb_array_elements_text(${JSON.stringify(commentIds)}::jsonb))`,
+    })
+    .where(eq(processingJobs.id, jobId));
+}
+
 /**
  * Update job progress in database
  */
@@ -0,0 +1,201 @@
+import sharp from 'sharp';
+import type { FrameioComment } from '@/lib/frameio-client';
+import type { NormalizedRect } from '../ai/perceptual-hash';
+import { SIGNATURE_ALGORITHMS, type SignatureAlgorithmId } from '../ai/signatures';
+import { annotationPoints, applyTransform, type AffineTransform } from './geometry';
+
+/**
+ * Local-region verification for pinned and annotated comments
+ *
+ * A whole-frame match says the shot is the same, not that the thing the
+ * reviewer pointed at is. A patch around the pin (or the drawing's bounding
+ * box) is cropped from both frames - the target patch through the estimated
+ * reframe - and compared with structure and colour signatures:
+ * - correlation: zero-mean NCC of the grey patches, invariant to grade/exposure
+ * - ahash / blockmean: coarse shape, tolerant of re-encoding and blur
+ * - colorhist: colour content (low weight, grades move it too)
+ *
+ * Fine-detail signatures (dHash, pHash) are left out: on patches this small
+ * compression noise alone flips a large share of their bits.
+ *
+ * The change score is 0 for the same content and ~1 for unrelated content
+ * (binary signatures of unrelated images sit around 0.5 normalized distance).
+ */
+export interface RegionCheck {
+  sourceRegion: NormalizedRect; // Normalized source frame
+  targetRegion: NormalizedRect; // Normalized target frame (through the reframe transform)
+  changeScore: number;          // 0 = unchanged, 1 = unrelated
+  changed: boolean;
+  distances: Partial<Record<SignatureAlgorithmId | 'correlation', number>>;
+}
+
+const REGION_ALGORITHMS: Array<{ id: SignatureAlgorithmId; weight: number; unrelated: number }> = [
+  { id: 'ahash', weight: 0.25, unrelated: 0.5 },
+  { id: 'blockmean', weight: 0.25, unrelated: 0.5 },
+  { id: 'colorhist', weight: 0.15, unrelated: 1 },
+];
+const CORRELATION_WEIGHT = 0.35;
+const CORRELATION_SIZE = 24;      // Grey patch side for NCC
+const FLAT_STD = 3;               // Grey-level std below which a patch has no structure to correlate
+const PIN_PATCH_HEIGHT = 0.2;     // Pin patch: square, this share of the frame height
+const ANNOTATION_PADDING = 0.03;  // Padding around a drawing's bounding box (normalized)
+const MIN_VISIBLE_AREA = 0.5;     // Target patch must keep this share of its area inside the frame
+const MIN_PATCH_PIXELS = 16;
+const CHANGED_THRESHOLD = 0.35;     // Re-encodes and grades score < ~0.2, replaced content ~1
+
+/**
+ * Region a comment refers to: its drawing's bounding box, else a patch around its pin
+ *
+ * @param aspectRatio - Source frame width / height (keeps pin patches square)
+ * @returns Normalized source rect, or null for comments without spatial data
+ */
+export function commentRegion(comment: FrameioComment, aspectRatio: number): NormalizedRect | null {
+  const points = comment.annotation ? annotationPoints(comment.annotation) : [];
+  if (points.length > 0) {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    return padToMinimum(clampRect({
+      x: Math.min(...xs) - ANNOTATION_PADDING,
+      y: Math.min(...ys) - ANNOTATION_PADDING,
+      width: Math.max(...xs) - Math.min(...xs) + 2 * ANNOTATION_PADDING,
+      height: Math.max(...ys) - Math.min(...ys) + 2 * ANNOTATION_PADDING,
+    }), aspectRatio);
+  }
+
+  if (typeof comment.x === 'number' && typeof comment.y === 'number') {
+    const width = PIN_PATCH_HEIGHT / aspectRatio;
+    return clampRect({
+      x: comment.x - width / 2,
+      y: comment.y - PIN_PATCH_HEIGHT / 2,
+      width,
+      height: PIN_PATCH_HEIGHT,
+    });
+  }
+  return null;
+}
+
+/**
+ * Compare the comment's region in the source frame with the same region in the matched target frame
+ *
+ * @param transform - Normalized source → target transform (identity when not reframed)
+ * @returns null when the region left the target frame or is too small to compare
+ */
+export async function verifyRegion(
+  sourceBuffer: Buffer,
+  targetBuffer: Buffer,
+  sourceRegion: NormalizedRect,
+  transform: AffineTransform
+): Promise<RegionCheck | null> {
+  const topLeft = applyTransform(transform, { x: sourceRegion.x, y: sourceRegion.y });
+  const bottomRight = applyTransform(transform, {
+    x: sourceRegion.x + sourceRegion.width,
+    y: sourceRegion.y + sourceRegion.height,
+  });
+  const mapped = {
+    x: Math.min(topLeft.x, bottomRight.x),
+    y: Math.min(topLeft.y, bottomRight.y),
+    width: Math.abs(bottomRight.x - topLeft.x),
+    height: Math.abs(bottomRight.y - topLeft.y),
+  };
+  const targetRegion = clampRect(mapped);
+  if (targetRegion.width * targetRegion.height < mapped.width * mapped.height * MIN_VISIBLE_AREA) {
+    return null;
+  }
+
+  const [sourcePatch, targetPatch] = await Promise.all([
+    cropPatch(sourceBuffer, sourceRegion),
+    cropPatch(targetBuffer, targetRegion),
+  ]);
+  if (!sourcePatch || !targetPatch) return null;
+
+  const distances: RegionCheck['distances'] = {};
+  distances.correlation = await correlationDistance(sourcePatch, targetPatch);
+  let changeScore = CORRELATION_WEIGHT * distances.correlation;
+  for (const { id, weight, unrelated } of REGION_ALGORITHMS) {
+    const algorithm = SIGNATURE_ALGORITHMS[id];
+    const [a, b] = await Promise.all([algorithm.compute(sourcePatch), algorithm.compute(targetPatch)]);
+    const distance = algorithm.distance(a, b);
+    distances[id] = distance;
+    changeScore += weight * Math.min(1, distance / unrelated);
+  }
+
+  return {
+    sourceRegion,
+    targetRegion,
+    changeScore,
+    changed: changeScore >= CHANGED_THRESHOLD,
+    distances,
+  };
+}
+
+async function cropPatch(buffer: Buffer, region: NormalizedRect): Promise<sharp.Sharp | null> {
+  const image = sharp(buffer);
+  const { width = 0, height = 0 } = await image.metadata();
+  const left = Math.round(region.x * width);
+  const top = Math.round(region.y * height);
+  const patchWidth = Math.min(width - left, Math.round(region.width * width));
+  const patchHeight = Math.min(height - top, Math.round(region.height * height));
+  if (patchWidth < MIN_PATCH_PIXELS || patchHeight < MIN_PATCH_PIXELS) return null;
+
+  // Materialise the crop so signature pipelines (which clone and resize) start from the patch
+  const patch = await image.extract({ left, top, width: patchWidth, height: patchHeight }).png().toBuffer();
+  return sharp(patch);
+}
+
+/**
+ * 1 - NCC of the grey patches, clamped to 0-1 (anti-correlated counts as unrelated)
+ */
+async function correlationDistance(a: sharp.Sharp, b: sharp.Sharp): Promise<number> {
+  const gray = (image: sharp.Sharp) => image.clone()
+    .resize(CORRELATION_SIZE, CORRELATION_SIZE, { fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer();
+  const [pa, pb] = await Promise.all([gray(a), gray(b)]);
+
+  const n = pa.length;
+  let meanA = 0, meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += pa[i] / n;
+    meanB += pb[i] / n;
+  }
+  let covariance = 0, varianceA = 0, varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (pa[i] - meanA) * (pb[i] - meanB);
+    varianceA += (pa[i] - meanA) ** 2;
+    varianceB += (pb[i] - meanB) ** 2;
+  }
+  // Two flat patches (sky, black) are the same; one flat and one textured are not.
+  // Flat = grey-level std below FLAT_STD, where NCC would only correlate compression noise.
+  const flat = n * FLAT_STD * FLAT_STD;
+  if (varianceA < flat && varianceB < flat) return 0;
+  if (varianceA < flat || varianceB < flat) return 1;
+  return Math.min(1, Math.max(0, 1 - covariance / Math.sqrt(varianceA * varianceB)));
+}
+
+/**
+ * Grow small drawing boxes (a dot, a short tick) to at least a pin-sized patch
+ */
+function padToMinimum(rect: NormalizedRect, aspectRatio: number): NormalizedRect {
+  const minHeight = PIN_PATCH_HEIGHT;
+  const minWidth = PIN_PATCH_HEIGHT / aspectRatio;
+  const width = Math.max(rect.width, minWidth);
+  const height = Math.max(rect.height, minHeight);
+  return clampRect({
+    x: rect.x - (width - rect.width) / 2,
+    y: rect.y - (height - rect.height) / 2,
+    width,
+    height,
+  });
+}
+
+function clampRect(rect: NormalizedRect): NormalizedRect {
+  const x = Math.min(1, Math.max(0, rect.x));
+  const y = Math.min(1, Math.max(0, rect.y));
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(1 - x, rect.width - (x - rect.x))),
+    height: Math.max(0, Math.min(1 - y, rect.height - (y - rect.y))),
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Frame-rate conversion and retime-aware mapping between two versions
+ *
+ * Frame.io comment timestamps are frame numbers at the file's own fps, and
+ * target hashes are numbered at the target fps. When a version was conformed
+ * to a different rate (23.976 → 25 PAL speed-up, 3:2 pulldown to 29.97) or a
+ * shot was speed-ramped, a matched frame pair only tells us where one frame
+ * went. This module fits a piecewise-linear time map from matched pairs so
+ * positions can be predicted, snapped and converted into target frames.
+ */
+
+export type RateConversion =
+  | 'none'          // Same frame rate
+  | 'speed_change'  // Frames kept 1:1, playback speed changed (e.g. 23.976 → 25)
+  | 'pulldown'      // Playback speed kept, frames repeated (e.g. 23.976 → 29.97 3:2)
+  | 'other';        // Frame blending / arbitrary conversion, rate fitted from data
+
+export interface FramePair {
+  sourceFrame: number;
+  targetFrame: number;
+  weight?: number; // Relative trust (e.g. diff runs > low-confidence comment matches)
+}
+
+export interface RetimeSegment {
+  sourceStartTime: number; // Seconds (first anchoring pair)
+  sourceEndTime: number;   // Seconds (last anchoring pair)
+  rate: number;            // Target seconds per source second
+  offset: number;          // targetTime = rate * sourceTime + offset
+  pairCount: number;
+  isSpeedRamp: boolean;    // Fitted rate deviates from the fps conversion
+}
+
+export interface RetimeModel {
+  sourceFps: number;
+  targetFps: number;
+  conversion: RateConversion;
+  nominalRate: number; // Expected rate from the fps conversion alone
+  segments: RetimeSegment[];
+}
+
+export interface MappedPosition {
+  targetTime: number;
+  targetFrame: number; // In the target's own frame numbering
+  segment: RetimeSegment;
+}
+
+const FPS_EPSILON = 0.01;
+const PULLDOWN_RATIO = 1.25;        // 4 film frames → 5 video frames
+const SPEED_CHANGE_MAX_RATIO = 1.1; // 23.976/24/25 family
+const SPEED_RAMP_TOLERANCE = 0.02;  // Fitted rate within 2% of nominal is not a ramp
+const MIN_RATE = 0.1;               // Plausible playback speeds for one segment
+const MAX_RATE = 10;
+const MAX_EXTRAPOLATION_SECONDS = 1; // Map positions this far outside a segment's anchors
+const MIN_FIT_SPAN_SECONDS = 1;      // Shorter segments keep the nominal rate (slope too noisy)
+
+/**
+ * Classify the conversion between two frame rates and the time rate it implies
+ */
+export function classifyRateConversion(
+  sourceFps: number,
+  targetFps: number
+): { conversion: RateConversion; nominalRate: number } {
+  if (Math.abs(sourceFps - targetFps) < FPS_EPSILON) {
+    return { conversion: 'none', nominalRate: 1 };
+  }
+
+  const ratio = Math.max(sourceFps, targetFps) / Math.min(sourceFps, targetFps);
+  if (Math.abs(ratio - PULLDOWN_RATIO) < FPS_EPSILON) {
+    return { conversion: 'pulldown', nominalRate: 1 };
+  }
+  if (ratio < SPEED_CHANGE_MAX_RATIO) {
+    // Same frames played at the target rate: 1s of 23.976 lasts 0.959s at 25
+    return { conversion: 'speed_change', nominalRate: sourceFps / targetFps };
+  }
+  return { conversion: 'other', nominalRate: 1 };
+}
+
+/**
+ * Fit a piecewise-linear source → target time map from matched frame pairs
+ *
+ * 1. Walk pairs in source order, extending the current segment while the pair
+ *    lies on its line (within ~1.5 target frames); otherwise start a new one
+ *    (edit point or speed change)
+ * 2. Merge neighbouring segments when a single line with a plausible rate
+ *    fits both (a ramped shot sampled at several points)
+ * 3. Flag segments whose rate departs from the fps conversion as speed ramps
+ */
+export function fitRetimeModel(
+  pairs: FramePair[],
+  sourceFps: number,
+  targetFps: number
+): RetimeModel {
+  const { conversion, nominalRate } = classifyRateConversion(sourceFps, targetFps);
+  const tolerance = 1.5 / targetFps;
+
+  const points: TimePoint[] = pairs
+    .map(p => ({
+      sourceTime: p.sourceFrame / sourceFps,
+      targetTime: p.targetFrame / targetFps,
+      weight: p.weight ?? 1,
+    }))
+    .sort((a, b) => a.sourceTime - b.sourceTime);
+
+  // Pass 1: greedy segmentation at the nominal rate
+  const groups: TimePoint[][] = [];
+  for (const point of points) {
+    const group = groups[groups.length - 1];
+    if (group) {
+      const { rate, offset } = fitLine(group, nominalRate, false);
+      if (Math.abs(rate * point.sourceTime + offset - point.targetTime) <= tolerance) {
+        group.push(point);
+        continue;
+      }
+    }
+    groups.push([point]);
+  }
+
+  // Pass 2: merge neighbours that share one line (speed-ramped shots)
+  // Two points always share a line, so short unions must also fit the next group
+  const merged: TimePoint[][] = [];
+  for (let i = 0; i < groups.length; i++) {
+    const prev = merged[merged.length - 1];
+    if (prev) {
+      const union = [...prev, ...groups[i]];
+      const probe = canFitRate(union) ? union : [...union, ...(groups[i + 1] ?? [])];
+      if (canFitRate(probe) && fitsOneLine(probe, nominalRate, tolerance)) {
+        merged[merged.length - 1] = union;
+        continue;
+      }
+    }
+    merged.push(groups[i]);
+  }
+
+  const segments = merged.map(group => {
+    const { rate, offset } = fitLine(group, nominalRate, canFitRate(group));
+    return {
+      sourceStartTime: group[0].sourceTime,
+      sourceEndTime: group[group.length - 1].sourceTime,
+      rate,
+      offset,
+      pairCount: group.length,
+      isSpeedRamp: canFitRate(group) && Math.abs(rate / nominalRate - 1) > SPEED_RAMP_TOLERANCE,
+    };
+  });
+
+  const ramps = segments.filter(s => s.isSpeedRamp).length;
+  console.log(
+    `⏱️  Retime model: ${sourceFps.toFixed(3)} → ${targetFps.toFixed(3)}fps (${conversion}, rate ${nominalRate.toFixed(4)}), ` +
+    `${segments.length} segments from ${points.length} pairs${ramps > 0 ? `, ${ramps} speed ramps` : ''}`
+  );
+
+  return { sourceFps, targetFps, conversion, nominalRate, segments };
+}
+
+/**
+ * Map a source frame number to the target timeline
+ * Returns null when no segment covers the position (e.g. removed material)
+ */
+export function mapSourceFrame(model: RetimeModel, sourceFrame: number): MappedPosition | null {
+  const sourceTime = sourceFrame / model.sourceFps;
+
+  let segment: RetimeSegment | null = null;
+  let closest = Infinity;
+  for (const candidate of model.segments) {
+    const outside = Math.max(candidate.sourceStartTime - sourceTime, sourceTime - candidate.sourceEndTime, 0);
+    if (outside <= MAX_EXTRAPOLATION_SECONDS && outside < closest) {
+      segment = candidate;
+      closest = outside;
+    }
+  }
+  if (!segment) return null;
+
+  const targetTime = segment.rate * sourceTime + segment.offset;
+  return {
+    targetTime,
+    targetFrame: Math.max(0, Math.round(targetTime * model.targetFps)),
+    segment,
+  };
+}
+
+/**
+ * Convert a source frame count (e.g. a comment's duration) to target frames
+ * at the local rate of the segment it falls in
+ */
+export function mapFrameCount(model: RetimeModel, sourceFrame: number, frameCount: number): number {
+  const rate = mapSourceFrame(model, sourceFrame)?.segment.rate ?? model.nominalRate;
+  return Math.max(0, Math.round((frameCount / model.sourceFps) * rate * model.targetFps));
+}
+
+interface TimePoint {
+  sourceTime: number;
+  targetTime: number;
+  weight: number;
+}
+
+/**
+ * Enough points over a long enough span to estimate a rate, not just an offset
+ */
+function canFitRate(points: TimePoint[]): boolean {
+  return points.length >= 3 &&
+    points[points.length - 1].sourceTime - points[0].sourceTime >= MIN_FIT_SPAN_SECONDS;
+}
+
+/**
+ * Every point within tolerance of the fitted line, at a plausible playback speed
+ */
+function fitsOneLine(points: TimePoint[], nominalRate: number, tolerance: number): boolean {
+  const { rate, offset } = fitLine(points, nominalRate, true);
+  return rate >= MIN_RATE && rate <= MAX_RATE &&
+    points.every(p => Math.abs(rate * p.sourceTime + offset - p.targetTime) <= tolerance);
+}
+
+/**
+ * Weighted least-squares line through the points
+ * With fitRate = false only the offset is fitted and the nominal rate is kept.
+ */
+function fitLine(
+  points: TimePoint[],
+  nominalRate: number,
+  fitRate: boolean
+): { rate: number; offset: number } {
+  let sw = 0, sx = 0, sy = 0;
+  for (const p of points) {
+    sw += p.weight;
+    sx += p.weight * p.sourceTime;
+    sy += p.weight * p.targetTime;
+  }
+  const meanX = sx / sw;
+  const meanY = sy / sw;
+
+  if (!fitRate) {
+    return { rate: nominalRate, offset: meanY - nominalRate * meanX };
+  }
+
+  let sxx = 0, sxy = 0;
+  for (const p of points) {
+    sxx += p.weight * (p.sourceTime - meanX) ** 2;
+    sxy += p.weight * (p.sourceTime - meanX) * (p.targetTime - meanY);
+  }
+
+  const rate = sxx > 1e-9 ? sxy / sxx : nominalRate;
+  return { rate, offset: meanY - rate * meanX };
+}
@@ -0,0 +1,187 @@
+import sharp from 'sharp';
+import { extractFramesWithSeeking } from './frame-extractor';
+import type { NormalizedRect } from '../ai/perceptual-hash';
+
+/**
+ * Region-of-interest masks for overlays that differ between versions
+ *
+ * Burned-in timecode, watermarks and subtitles flip many dHash bits even when
+ * the picture underneath is identical. Masked rectangles are filled with flat
+ * grey before hashing, so both versions produce the same bits there.
+ *
+ * Masks are in normalized full-frame coordinates (0-1, before crop detection),
+ * since overlays are often burned into the letterbox bars.
+ */
+export type MaskPresetId = 'bottom_third' | 'bitc' | 'top_right_bug';
+
+export const MASK_PRESETS: Record<MaskPresetId, NormalizedRect> = {
+  bottom_third: { x: 0, y: 2 / 3, width: 1, height: 1 / 3 },        // Subtitles, lower-third graphics
+  bitc: { x: 0.3, y: 0.84, width: 0.4, height: 0.12 },                // Burned-in timecode window (bottom centre)
+  top_right_bug: { x: 0.8, y: 0, width: 0.2, height: 0.15 },          // Channel bug / watermark
+};
+
+// Auto-detection grid and thresholds
+const GRID_COLUMNS = 32;
+const GRID_ROWS = 18;
+const SAMPLE_COUNT = 12;            // Adjacent-frame pairs sampled per video
+const CELL_CHANGE_THRESHOLD = 6;    // Mean absolute luma difference (0-255) that counts as change
+const ALWAYS_CHANGING_RATIO = 0.9;  // Cell must change in this share of sampled pairs
+const MAX_BACKGROUND_RATIO = 0.5;   // ...while the typical cell changes far less often
+const MAX_REGION_AREA = 0.25;       // Larger regions are picture motion, not an overlay
+
+/**
+ * Parse job masks: preset ids and/or explicit rectangles
+ * e.g. ["bitc", { x: 0.7, y: 0.05, width: 0.25, height: 0.1 }]
+ * Invalid entries are ignored; rectangles are clamped to the frame.
+ */
+export function parseMasks(value: unknown): NormalizedRect[] {
+  if (!Array.isArray(value)) return [];
+
+  const masks: NormalizedRect[] = [];
+  for (const entry of value) {
+    if (typeof entry === 'string' && entry in MASK_PRESETS) {
+      masks.push(MASK_PRESETS[entry as MaskPresetId]);
+      continue;
+    }
+    if (entry && typeof entry === 'object') {
+      const { x, y, width, height } = entry as Record<string, unknown>;
+      if ([x, y, width, height].every(n => typeof n === 'number' && Number.isFinite(n))) {
+        const rect = clampRect({ x, y, width, height } as NormalizedRect);
+        if (rect.width > 0 && rect.height > 0) masks.push(rect);
+      }
+    }
+  }
+  return masks;
+}
+
+/**
+ * Find regions that change on every frame (running timecode, animated bugs)
+ *
+ * Samples adjacent frame pairs across the video and marks grid cells that
+ * differ in nearly every pair while most of the frame does not. Connected
+ * cells become padded rectangles.
+ *
+ * @returns Mask rectangles in normalized full-frame coordinates
+ */
+export async function detectChangingRegions(
+  videoUrl: string,
+  fps: number,
+  duration: number
+): Promise<NormalizedRect[]> {
+  // Pairs (n, n+1) spread across the middle 90% of the video
+  const frameNumbers: number[] = [];
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const frame = Math.floor(((0.05 + (0.9 * i) / (SAMPLE_COUNT - 1)) * duration) * fps);
+    frameNumbers.push(frame, frame + 1);
+  }
+
+  const frames = await extractFramesWithSeeking(videoUrl, frameNumbers, fps, 4);
+  const cellsByFrame = new Map<number, Float64Array>();
+  for (const frame of frames) {
+    if (frame.frameNumber === undefined) continue;
+    cellsByFrame.set(frame.frameNumber, await cellMeans(frame.buffer));
+  }
+
+  const cellCount = GRID_COLUMNS * GRID_ROWS;
+  const changeCounts = new Uint32Array(cellCount);
+  let pairs = 0;
+  for (let i = 0; i < frameNumbers.length; i += 2) {
+    const a = cellsByFrame.get(frameNumbers[i]);
+    const b = cellsByFrame.get(frameNumbers[i + 1]);
+    if (!a || !b) continue;
+    pairs++;
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (Math.abs(a[cell] - b[cell]) >= CELL_CHANGE_THRESHOLD) changeCounts[cell]++;
+    }
+  }
+  if (pairs < SAMPLE_COUNT / 2) return [];
+
+  const ratios = Array.from(changeCounts, count => count / pairs);
+  const background = [...ratios].sort((x, y) => x - y)[Math.floor(cellCount / 2)];
+  if (background > MAX_BACKGROUND_RATIO) return []; // Constant motion everywhere - nothing stands out
+
+  const changing = ratios.map(ratio => ratio >= ALWAYS_CHANGING_RATIO);
+  return connectedRegions(changing)
+    .filter(rect => rect.width * rect.height <= MAX_REGION_AREA);
+}
+
+/**
+ * Merge two mask lists, dropping exact duplicates
+ */
+export function mergeMasks(...lists: NormalizedRect[][]): NormalizedRect[] {
+  const seen = new Set<string>();
+  const merged: NormalizedRect[] = [];
+  for (const rect of lists.flat()) {
+    const key = [rect.x, rect.y, rect.width, rect.height].map(n => n.toFixed(4)).join(',');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(rect);
+  }
+  return merged;
+}
+
+async function cellMeans(buffer: Buffer): Promise<Float64Array> {
+  const pixels = await sharp(buffer)
+    .resize(GRID_COLUMNS, GRID_ROWS, { fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer();
+  return Float64Array.from(pixels);
+}
+
+/**
+ * Bounding boxes of 4-connected changing cells, padded by one cell
+ */
+function connectedRegions(cells: boolean[]): NormalizedRect[] {
+  const visited = new Uint8Array(cells.length);
+  const regions: NormalizedRect[] = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || visited[start]) continue;
+
+    let minCol = GRID_COLUMNS, maxCol = -1, minRow = GRID_ROWS, maxRow = -1;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const col = cell % GRID_COLUMNS;
+      const row = Math.floor(cell / GRID_COLUMNS);
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      const neighbors = [
+        col > 0 ? cell - 1 : -1,
+        col < GRID_COLUMNS - 1 ? cell + 1 : -1,
+        row > 0 ? cell - GRID_COLUMNS : -1,
+        row < GRID_ROWS - 1 ? cell + GRID_COLUMNS : -1,
+      ];
+      for (const next of neighbors) {
+        if (next >= 0 && cells[next] && !visited[next]) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    regions.push(clampRect({
+      x: (minCol - 1) / GRID_COLUMNS,
+      y: (minRow - 1) / GRID_ROWS,
+      width: (maxCol - minCol + 3) / GRID_COLUMNS,
+      height: (maxRow - minRow + 3) / GRID_ROWS,
+    }));
+  }
+  return regions;
+}
+
+function clampRect(rect: NormalizedRect): NormalizedRect {
+  const x = Math.min(1, Math.max(0, rect.x));
+  const y = Math.min(1, Math.max(0, rect.y));
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(1 - x, rect.width + Math.min(0, rect.x))),
+    height: Math.max(0, Math.min(1 - y, rect.height + Math.min(0, rect.y))),
+  };
+}
@@ -0,0 +1,62 @@
+import { FrameioClient } from '@/lib/frameio-client';
+import { extractFramesWithSeeking, getVideoMetadata } from './frame-extractor';
+
+/**
+ * Single-frame thumbnails from a file's efficient proxy, for match review
+ *
+ * Each request seeks one frame out of the proxy (320px JPEG). The proxy URL
+ * and its fps are probed once per file and kept for a few minutes, since a
+ * review page asks for a handful of frames from the same two files at once.
+ */
+interface ProxyInfo {
+  url: string;
+  fps: number;
+  frameCount: number;
+  expiresAt: number;
+}
+
+const PROXY_CACHE_TTL_MS = 10 * 60 * 1000; // Well inside the lifetime of Frame.io download URLs
+const proxyCache = new Map<string, ProxyInfo>();
+
+/**
+ * JPEG of one frame of a file (frame numbers in the file's own numbering)
+ *
+ * @throws If the file has no efficient proxy or the frame is past the end
+ */
+export async function renderFrameThumbnail(
+  client: FrameioClient,
+  accountId: string,
+  fileId: string,
+  frameNumber: number
+): Promise<Buffer> {
+  const proxy = await resolveProxy(client, accountId, fileId);
+  if (frameNumber < 0 || frameNumber >= proxy.frameCount) {
+    throw new Error(`Frame ${frameNumber} is outside the video (0-${proxy.frameCount - 1})`);
+  }
+
+  const [frame] = await extractFramesWithSeeking(proxy.url, [frameNumber], proxy.fps, 1);
+  return frame.buffer;
+}
+
+/**
+ * Frames in a file's efficient proxy (the range thumbnails and review placements may use)
+ */
+export async function proxyFrameCount(client: FrameioClient, accountId: string, fileId: string): Promise<number> {
+  return (await resolveProxy(client, accountId, fileId)).frameCount;
+}
+
+async function resolveProxy(client: FrameioClient, accountId: string, fileId: string): Promise<ProxyInfo> {
+  const cached = proxyCache.get(fileId);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  const file = await client.getFileWithMediaLinks(accountId, fileId);
+  const url = file.media_links?.efficient?.download_url;
+  if (!url) {
+    throw new Error('File has no efficient proxy available');
+  }
+
+  const metadata = await getVideoMetadata(url);
+  const proxy = { url, fps: metadata.fps, frameCount: metadata.frameCount, expiresAt: Date.now() + PROXY_CACHE_TTL_MS };
+  proxyCache.set(fileId, proxy);
+  return proxy;
+}
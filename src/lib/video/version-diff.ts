@@ -0,0 +1,388 @@
+import { hammingDistance, type FrameHash } from '../ai/perceptual-hash';
+import type { TargetHashIndex } from '../ai/hash-index';
+
+export type DiffSegmentType =
+  | 'kept'
+  | 'inserted'
+  | 'removed'
+  | 'trimmed_head'
+  | 'trimmed_tail'
+  | 'moved';
+
+export interface DiffTimeRange {
+  startFrame: number;
+  endFrame: number;   // Inclusive
+  startTime: number;  // Seconds
+  endTime: number;    // Seconds (exclusive, end of last frame)
+}
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  source?: DiffTimeRange; // Absent for inserted segments
+  target?: DiffTimeRange; // Absent for removed/trimmed segments
+}
+
+export interface VersionDiff {
+  sourceFps: number;
+  targetFps: number;
+  sourceFrameCount: number;
+  targetFrameCount: number;
+  segments: DiffSegment[];
+  summary: Record<DiffSegmentType, number>;
+}
+
+// Alignment thresholds (1024-bit hashes)
+const TRACK_THRESHOLD = 160;   // Accept predicted continuation up to ~84% similarity
+const SEEK_RADIUS = 63;        // Index search radius when tracking is lost (exact MIH at probe radius 1)
+const SEEK_TIE_BITS = 2;       // Candidates this close to the best are tie-broken by offset continuity
+const LOST_STRIDE = 4;         // Re-seek every Nth source frame while lost
+const CUT_THRESHOLD = 250;     // Consecutive-frame distance that marks a shot cut
+const MIN_RUN_FRAMES = 6;      // Shorter aligned runs are treated as noise
+const MIN_GAP_FRAMES = 2;      // Shorter gaps are frame-accuracy jitter at run boundaries
+
+interface AlignedRun {
+  sourceStart: number;  // Index into source hashes
+  sourceEnd: number;
+  targetStart: number;  // Target frame number
+  targetEnd: number;
+  offset: number;       // targetTime - rate * sourceTime (seconds)
+}
+
+/**
+ * Compare per-frame hashes of two versions and produce a structured edit list
+ *
+ * Alignment works like a tracker rather than a per-frame search:
+ * 1. While aligned, predict the next target frame from the current time offset
+ *    and verify it with a single popcount (handles fps differences via time,
+ *    and speed changes via the nominal rate)
+ * 2. When the prediction fails (an edit point), seek with the target index and
+ *    start a new run, preferring candidates that keep the previous offset
+ * 3. Runs in target order (longest increasing chain) are "kept", the rest "moved"
+ * 4. Unaligned source frames are split at shot cuts into trimmed_tail (end of the
+ *    preceding shot), trimmed_head (start of the following shot) and removed
+ * 5. Unaligned target frames are "inserted"
+ *
+ * @param sourceHashes - Per-frame hashes of the source version, in frame order
+ * @param targetIndex - Index over per-frame hashes of the target version
+ * @param rate - Target seconds per source second (≠ 1 for speed-changing conforms, e.g. 23.976 → 25)
+ */
+export function computeVersionDiff(
+  sourceHashes: FrameHash[],
+  targetIndex: TargetHashIndex,
+  sourceFps: number,
+  targetFps: number,
+  rate: number = 1
+): VersionDiff {
+  const targetHashes = [...targetIndex.all()].sort(
+    (a, b) => (a.frameNumber ?? 0) - (b.frameNumber ?? 0)
+  );
+
+  const runs = alignTimelines(sourceHashes, targetIndex, targetFps, rate);
+  const keptRuns = longestIncreasingRuns(runs);
+
+  const segments: Array<DiffSegment & { order: number }> = [];
+
+  for (const run of runs) {
+    segments.push({
+      type: keptRuns.has(run) ? 'kept' : 'moved',
+      source: sourceRange(sourceHashes, run.sourceStart, run.sourceEnd, sourceFps),
+      target: targetRange(run.targetStart, run.targetEnd, targetFps),
+      order: run.targetStart,
+    });
+  }
+
+  // Source frames not covered by any run: removed or trimmed
+  let cursor = 0;
+  for (let r = 0; r <= runs.length; r++) {
+    const prev = runs[r - 1];
+    const next = runs[r];
+    const gapStart = cursor;
+    const gapEnd = next ? next.sourceStart - 1 : sourceHashes.length - 1;
+    cursor = next ? next.sourceEnd + 1 : cursor;
+
+    if (gapEnd - gapStart + 1 < MIN_GAP_FRAMES) continue;
+
+    // Place source-only segments after the target position of the preceding run
+    const order = (prev ? prev.targetEnd : -1) + 0.5;
+    for (const part of classifySourceGap(sourceHashes, gapStart, gapEnd, !!prev, !!next)) {
+      segments.push({
+        type: part.type,
+        source: sourceRange(sourceHashes, part.start, part.end, sourceFps),
+        order,
+      });
+    }
+  }
+
+  // Target frames not covered by any run: inserted (single sweep over sorted intervals)
+  const intervals = runs
+    .map(r => ({ start: r.targetStart, end: r.targetEnd }))
+    .sort((a, b) => a.start - b.start);
+  let intervalIndex = 0;
+  let gapStartFrame: number | null = null;
+  for (let i = 0; i <= targetHashes.length; i++) {
+    const frame = targetHashes[i]?.frameNumber;
+    while (frame !== undefined && intervalIndex < intervals.length && intervals[intervalIndex].end < frame) {
+      intervalIndex++;
+    }
+    const covered = frame !== undefined &&
+      intervalIndex < intervals.length &&
+      intervals[intervalIndex].start <= frame;
+
+    if (frame !== undefined && !covered) {
+      gapStartFrame ??= frame;
+      continue;
+    }
+    if (gapStartFrame !== null) {
+      const gapEndFrame = targetHashes[i - 1].frameNumber!;
+      if (gapEndFrame - gapStartFrame + 1 >= MIN_GAP_FRAMES) {
+        segments.push({
+          type: 'inserted',
+          target: targetRange(gapStartFrame, gapEndFrame, targetFps),
+          order: gapStartFrame,
+        });
+      }
+      gapStartFrame = null;
+    }
+  }
+
+  segments.sort((a, b) => a.order - b.order);
+
+  const summary: Record<DiffSegmentType, number> = {
+    kept: 0,
+    inserted: 0,
+    removed: 0,
+    trimmed_head: 0,
+    trimmed_tail: 0,
+    moved: 0,
+  };
+  segments.forEach(s => summary[s.type]++);
+
+  console.log(
+    `🧮 Version diff: ${summary.kept} kept | ${summary.moved} moved | ${summary.inserted} inserted | ` +
+    `${summary.removed} removed | ${summary.trimmed_head + summary.trimmed_tail} trimmed`
+  );
+
+  return {
+    sourceFps,
+    targetFps,
+    sourceFrameCount: sourceHashes.length,
+    targetFrameCount: targetHashes.length,
+    segments: segments.map(({ type, source, target }) => ({ type, source, target })),
+    summary,
+  };
+}
+
+/**
+ * Walk the source timeline and group frames into runs with a constant offset at the given rate
+ */
+function alignTimelines(
+  sourceHashes: FrameHash[],
+  targetIndex: TargetHashIndex,
+  targetFps: number,
+  rate: number
+): AlignedRun[] {
+  const rawRuns: AlignedRun[] = [];
+  let run: AlignedRun | null = null;
+  let lastOffset = 0;
+  let lostFrames = 0;
+
+  for (let i = 0; i < sourceHashes.length; i++) {
+    const source = sourceHashes[i];
+
+    if (run) {
+      const predicted = predictTarget(source, run.offset, targetIndex, targetFps, rate);
+      if (predicted) {
+        run.sourceEnd = i;
+        run.targetEnd = Math.max(run.targetEnd, predicted.frameNumber!);
+        continue;
+      }
+      rawRuns.push(run);
+      lastOffset = run.offset;
+      run = null;
+      lostFrames = 0;
+    }
+
+    // While lost, only seek every Nth frame (index queries are the expensive path)
+    if (lostFrames++ % LOST_STRIDE !== 0) continue;
+
+    const match = seekTarget(source, lastOffset, targetIndex, rate);
+    if (!match) continue;
+
+    const offset = match.timestamp! - rate * source.timestamp!;
+    run = {
+      sourceStart: i,
+      sourceEnd: i,
+      targetStart: match.frameNumber!,
+      targetEnd: match.frameNumber!,
+      offset,
+    };
+
+    // Backfill frames skipped by the stride
+    const previousEnd = rawRuns.length > 0 ? rawRuns[rawRuns.length - 1].sourceEnd : -1;
+    for (let j = i - 1; j > previousEnd && j > i - LOST_STRIDE; j--) {
+      const predicted = predictTarget(sourceHashes[j], offset, targetIndex, targetFps, rate);
+      if (!predicted) break;
+      run.sourceStart = j;
+      run.targetStart = Math.min(run.targetStart, predicted.frameNumber!);
+    }
+  }
+  if (run) rawRuns.push(run);
+
+  // Drop noise runs, then merge runs split by a single-frame glitch
+  const offsetTolerance = 2 / targetFps;
+  const runs: AlignedRun[] = [];
+  for (const candidate of rawRuns) {
+    if (candidate.sourceEnd - candidate.sourceStart + 1 < MIN_RUN_FRAMES) continue;
+
+    const prev = runs[runs.length - 1];
+    if (
+      prev &&
+      candidate.sourceStart - prev.sourceEnd - 1 < MIN_GAP_FRAMES &&
+      Math.abs(candidate.offset - prev.offset) <= offsetTolerance
+    ) {
+      prev.sourceEnd = candidate.sourceEnd;
+      prev.targetEnd = Math.max(prev.targetEnd, candidate.targetEnd);
+      continue;
+    }
+    runs.push({ ...candidate });
+  }
+
+  return runs;
+}
+
+/**
+ * Check the target frame(s) where the current offset says this source frame should be
+ */
+function predictTarget(
+  source: FrameHash,
+  offset: number,
+  targetIndex: TargetHashIndex,
+  targetFps: number,
+  rate: number
+): FrameHash | null {
+  const expectedFrame = Math.round((rate * source.timestamp! + offset) * targetFps);
+  let best: FrameHash | null = null;
+  let bestDistance = TRACK_THRESHOLD + 1;
+
+  for (const delta of [0, -1, 1]) {
+    const candidate = targetIndex.getByFrame(expectedFrame + delta);
+    if (!candidate) continue;
+    const distance = hammingDistance(source.bits, candidate.bits);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Search the whole target for a source frame, preferring offset continuity on ties
+ * (static and black shots have many equally good candidates)
+ */
+function seekTarget(
+  source: FrameHash,
+  preferredOffset: number,
+  targetIndex: TargetHashIndex,
+  rate: number
+): FrameHash | null {
+  const neighbors = targetIndex.nearest(source.bits, 16, SEEK_RADIUS);
+  if (neighbors.length === 0) return null;
+
+  const tied = neighbors.filter(n => n.distance - neighbors[0].distance <= SEEK_TIE_BITS);
+  return tied.reduce((prev, curr) => {
+    const prevDiff = Math.abs(prev.hash.timestamp! - rate * source.timestamp! - preferredOffset);
+    const currDiff = Math.abs(curr.hash.timestamp! - rate * source.timestamp! - preferredOffset);
+    return currDiff < prevDiff ? curr : prev;
+  }).hash;
+}
+
+/**
+ * Runs that stay in source order on the target (longest increasing chain by target start)
+ */
+function longestIncreasingRuns(runs: AlignedRun[]): Set<AlignedRun> {
+  const length = runs.map(() => 1);
+  const previous = runs.map(() => -1);
+
+  for (let i = 0; i < runs.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (runs[j].targetEnd < runs[i].targetStart && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+
+  const kept = new Set<AlignedRun>();
+  let i = length.indexOf(Math.max(0, ...length));
+  while (i !== -1) {
+    kept.add(runs[i]);
+    i = previous[i];
+  }
+  return kept;
+}
+
+/**
+ * Split an unaligned source gap at shot cuts:
+ * - Part still in the preceding run's shot → trimmed_tail
+ * - Part already in the following run's shot → trimmed_head
+ * - Whole shots in between (or a mid-shot cut-out) → removed
+ */
+function classifySourceGap(
+  sourceHashes: FrameHash[],
+  gapStart: number,
+  gapEnd: number,
+  hasPrev: boolean,
+  hasNext: boolean
+): Array<{ type: DiffSegmentType; start: number; end: number }> {
+  // Cut at c = boundary between frame c-1 and frame c
+  const cuts: number[] = [];
+  for (let c = Math.max(1, gapStart); c <= Math.min(gapEnd + 1, sourceHashes.length - 1); c++) {
+    if (hammingDistance(sourceHashes[c - 1].bits, sourceHashes[c].bits) > CUT_THRESHOLD) {
+      cuts.push(c);
+    }
+  }
+
+  if (cuts.length === 0) {
+    const type: DiffSegmentType = hasPrev && hasNext
+      ? 'removed'
+      : hasPrev ? 'trimmed_tail' : hasNext ? 'trimmed_head' : 'removed';
+    return [{ type, start: gapStart, end: gapEnd }];
+  }
+
+  const parts: Array<{ type: DiffSegmentType; start: number; end: number }> = [];
+  const tailEnd = hasPrev ? cuts[0] - 1 : gapStart - 1;
+  const headStart = hasNext ? cuts[cuts.length - 1] : gapEnd + 1;
+
+  if (tailEnd >= gapStart) {
+    parts.push({ type: 'trimmed_tail', start: gapStart, end: tailEnd });
+  }
+  if (headStart - 1 >= tailEnd + 1) {
+    parts.push({ type: 'removed', start: tailEnd + 1, end: headStart - 1 });
+  }
+  if (gapEnd >= headStart) {
+    parts.push({ type: 'trimmed_head', start: headStart, end: gapEnd });
+  }
+  return parts;
+}
+
+function sourceRange(sourceHashes: FrameHash[], start: number, end: number, fps: number): DiffTimeRange {
+  const first = sourceHashes[start];
+  const last = sourceHashes[end];
+  return {
+    startFrame: first.frameNumber ?? start,
+    endFrame: last.frameNumber ?? end,
+    startTime: first.timestamp ?? start / fps,
+    endTime: (last.timestamp ?? end / fps) + 1 / fps,
+  };
+}
+
+function targetRange(startFrame: number, endFrame: number, fps: number): DiffTimeRange {
+  return {
+    startFrame,
+    endFrame,
+    startTime: startFrame / fps,
+    endTime: (endFrame + 1) / fps,
+  };
+}
@@ -0,0 +1,163 @@
+import type { FrameioComment } from '@/lib/frameio-client';
+import type { CommentMatch } from './frame-processor';
+import { noteKey, originalAuthorship, stripTransferMarkup } from './attribution';
+
+/**
+ * Collect comments from every previous version of a stack
+ *
+ * Each older version is matched against the target on its own. Notes that
+ * were already carried forward by earlier transfers exist on several versions
+ * (as "[Transferred ✓] ..." copies), so matches are grouped by their original
+ * text and target position, and each group lands once:
+ * - placement: the most confident match in the group (usually the newest version)
+ * - text, author, date: the oldest copy, i.e. where the note was written
+ * - replies: the original thread plus replies added to later copies
+ */
+export interface SourceVersion {
+  fileId: string;
+  fileName?: string;
+  version: number; // 1-based position in the version stack
+}
+
+export interface MergeResult {
+  matches: CommentMatch[];
+  duplicates: number; // Matches dropped as copies of a note placed from another version
+}
+
+const DUPLICATE_WINDOW_SECONDS = 2; // Copies of one note land within this distance on the target
+const CONFIDENCE_RANK = { high: 3, medium: 2, low: 1 } as const;
+
+/**
+ * Parse source versions from job metadata (entries without a file id are dropped)
+ */
+export function parseSourceVersions(value: unknown): SourceVersion[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((v): v is Record<string, unknown> => Boolean(v) && typeof v === 'object' && typeof v.fileId === 'string')
+    .map((v, index) => ({
+      fileId: v.fileId as string,
+      fileName: typeof v.fileName === 'string' ? v.fileName : undefined,
+      version: typeof v.version === 'number' ? v.version : index + 1,
+    }))
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Merge per-version matches into one deduplicated list, recording each note's origin version
+ */
+export function mergeVersionMatches(
+  perVersion: Array<{ origin: SourceVersion; matches: CommentMatch[] }>
+): MergeResult {
+  // Group by original note text, then split groups that land far apart (same words, different notes)
+  // Drawing-only and empty notes have no text to compare, so each one is kept as is
+  const merged: CommentMatch[] = [];
+  const byText = new Map<string, CommentMatch[]>();
+  for (const { origin, matches } of perVersion) {
+    for (const match of matches) {
+      const key = noteKey(match.sourceComment.text);
+      if (!key) {
+        merged.push({ ...match, origin });
+        continue;
+      }
+      const group = byText.get(key) ?? [];
+      group.push({ ...match, origin });
+      byText.set(key, group);
+    }
+  }
+
+  let duplicates = 0;
+  for (const group of byText.values()) {
+    for (const cluster of clusterByPosition(group)) {
+      merged.push(mergeCluster(cluster));
+      duplicates += cluster.length - 1;
+    }
+  }
+
+  merged.sort((a, b) => a.targetTimestamp - b.targetTimestamp);
+  return { matches: merged, duplicates };
+}
+
+/**
+ * Split matches with the same text into clusters of nearby target positions
+ * Two copies from the same version are never the same note.
+ */
+function clusterByPosition(matches: CommentMatch[]): CommentMatch[][] {
+  const sorted = [...matches].sort((a, b) => a.targetTimestamp - b.targetTimestamp);
+  const clusters: CommentMatch[][] = [];
+
+  for (const match of sorted) {
+    const cluster = clusters.find(c =>
+      Math.abs(c[c.length - 1].targetTimestamp - match.targetTimestamp) <= DUPLICATE_WINDOW_SECONDS &&
+      !c.some(m => m.origin!.fileId === match.origin!.fileId)
+    );
+    if (cluster) {
+      cluster.push(match);
+    } else {
+      clusters.push([match]);
+    }
+  }
+  return clusters;
+}
+
+function mergeCluster(cluster: CommentMatch[]): CommentMatch {
+  if (cluster.length === 1) return cluster[0];
+
+  const byVersion = [...cluster].sort((a, b) => a.origin!.version - b.origin!.version);
+  const original = byVersion[0];
+  const best = cluster.reduce((prev, curr) => {
+    const rank = (m: CommentMatch) => CONFIDENCE_RANK[m.confidence ?? 'low'];
+    if (rank(curr) !== rank(prev)) return rank(curr) > rank(prev) ? curr : prev;
+    return curr.similarity > prev.similarity ? curr : prev;
+  });
+
+  console.log(
+    `  🔗 "${noteKey(original.sourceComment.text).substring(0, 30)}..." found on ${cluster.length} versions ` +
+    `(v${byVersion.map(m => m.origin!.version).join(', v')}); placed from v${best.origin!.version}`
+  );
+
+  const sourceComment: FrameioComment = {
+    ...best.sourceComment,
+    text: stripTransferMarkup(original.sourceComment.text ?? ''),
+    owner: original.sourceComment.owner,
+    created_at: original.sourceComment.created_at,
+    replies: mergeReplies(byVersion.map(m => m.sourceComment.replies ?? [])),
+  };
+  return { ...best, sourceComment, origin: original.origin };
+}
+
+/**
+ * Original thread first, then replies that only exist on later copies
+ *
+ * A reply carried to a later version is a new comment by whoever ran the
+ * transfer, so copies are recognised by the original author, date and text
+ * their attribution records. Replies of one thread are never merged with each
+ * other, and each earlier reply absorbs at most one copy per later thread, so
+ * identical short replies ("ok" twice) all survive.
+ */
+function mergeReplies(threads: FrameioComment[][]): FrameioComment[] {
+  const replies: FrameioComment[] = [];
+  const keptIds = new Set<string>();
+  const keptKeys: string[] = [];
+  for (const thread of threads) {
+    const unclaimed = [...keptKeys];
+    for (const reply of thread) {
+      if (keptIds.has(reply.id)) continue;
+      const key = replyKey(reply);
+      const copyOf = unclaimed.indexOf(key);
+      if (copyOf >= 0) {
+        unclaimed.splice(copyOf, 1);
+        continue;
+      }
+      keptIds.add(reply.id);
+      keptKeys.push(key);
+      replies.push({ ...reply, text: stripTransferMarkup(reply.text ?? '') });
+    }
+  }
+  return replies;
+}
+
+function replyKey(reply: FrameioComment): string {
+  const { author, date } = originalAuthorship(reply);
+  return JSON.stringify([author, date, noteKey(reply.text)]);
+}